@@ -0,0 +1,186 @@
+import fs from 'fs'
+import path from 'path'
+
+import {
+  CollectionSummary,
+  DocumentAnnotations,
+  DocumentAnnotationsFile,
+  FacetCount
+} from './types/pdfTypes'
+
+const ANNOTATIONS_FILE_NAME = 'document-annotations.json'
+const ANNOTATIONS_VERSION = 1
+
+let annotationsFilePath: string | null = null
+// 読み取り専用の場合は保存ファイルに書き込まない (--mcp-stdioのプロセスがアプリの変更を上書きしないようにする)
+let readOnly = false
+let collections: string[] = []
+let documents: { [docId: string]: DocumentAnnotations } = {}
+
+function emptyAnnotations(): DocumentAnnotations {
+  return { tags: [], collections: [], notes: '' }
+}
+
+// 前後の空白を除き、大文字小文字だけが違う重複は最初のものを残す
+function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const label of labels) {
+    const value = label.replace(/\s+/g, ' ').trim()
+    if (!value || seen.has(value.toLowerCase())) continue
+    seen.add(value.toLowerCase())
+    result.push(value)
+  }
+  return result
+}
+
+function findCollection(name: string): string | undefined {
+  const lowered = name.trim().toLowerCase()
+  return collections.find((collection) => collection.toLowerCase() === lowered)
+}
+
+// タグ・コレクション・メモの保存ファイルを読み込む
+export function initDocumentAnnotations(
+  storeDir: string,
+  options: { readOnly?: boolean } = {}
+): void {
+  annotationsFilePath = path.join(storeDir, ANNOTATIONS_FILE_NAME)
+  readOnly = options.readOnly ?? false
+  collections = []
+  documents = {}
+
+  if (!fs.existsSync(annotationsFilePath)) return
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(annotationsFilePath, 'utf-8')) as DocumentAnnotationsFile
+    collections = normalizeLabels(raw.collections ?? [])
+    documents = raw.documents ?? {}
+    console.log(
+      `Document annotations loaded: ${Object.keys(documents).length} documents, ${collections.length} collections`
+    )
+  } catch (error) {
+    console.error('Error loading document annotations:', error)
+  }
+}
+
+function saveDocumentAnnotations(): void {
+  if (!annotationsFilePath || readOnly) return
+
+  const data: DocumentAnnotationsFile = { version: ANNOTATIONS_VERSION, collections, documents }
+  fs.mkdirSync(path.dirname(annotationsFilePath), { recursive: true })
+  // 書き込み途中で終了しても壊れないよう一時ファイル経由で置き換える
+  const tmpPath = `${annotationsFilePath}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2))
+  fs.renameSync(tmpPath, annotationsFilePath)
+}
+
+// 何も設定されていない文書は保存ファイルに残さない
+function storeAnnotations(docId: string, annotations: DocumentAnnotations): void {
+  if (
+    annotations.tags.length === 0 &&
+    annotations.collections.length === 0 &&
+    !annotations.notes.trim()
+  ) {
+    delete documents[docId]
+  } else {
+    documents[docId] = annotations
+  }
+}
+
+export function getDocumentAnnotations(docId: string): DocumentAnnotations {
+  return documents[docId] ?? emptyAnnotations()
+}
+
+// 指定された項目だけを置き換える。未登録のコレクション名は新しいコレクションとして追加する
+export function updateDocumentAnnotations(
+  docId: string,
+  update: Partial<Pick<DocumentAnnotations, 'tags' | 'collections' | 'notes'>>
+): DocumentAnnotations {
+  const current = getDocumentAnnotations(docId)
+  const next: DocumentAnnotations = {
+    tags: update.tags ? normalizeLabels(update.tags) : current.tags,
+    collections: update.collections
+      ? normalizeLabels(update.collections).map((name) => findCollection(name) ?? name)
+      : current.collections,
+    notes: update.notes ?? current.notes,
+    updatedAt: new Date().toISOString()
+  }
+
+  collections = normalizeLabels([...collections, ...next.collections])
+  storeAnnotations(docId, next)
+  saveDocumentAnnotations()
+  return getDocumentAnnotations(docId)
+}
+
+// 文書のIDが変わった場合 (同じパスの内容の更新) にタグ・コレクション・メモを新しいIDへ移す。
+// 移動先に既に設定がある場合は統合する。keepSourceの場合は元の文書にも残す (別のパスで登録が続く場合)
+export function moveDocumentAnnotations(fromId: string, toId: string, keepSource = false): void {
+  if (readOnly) return
+  const source = documents[fromId]
+  if (!source || fromId === toId) return
+
+  const target = documents[toId] ?? emptyAnnotations()
+  const notes = [target.notes, source.notes].filter((note) => note.trim())
+  storeAnnotations(toId, {
+    tags: normalizeLabels([...target.tags, ...source.tags]),
+    collections: normalizeLabels([...target.collections, ...source.collections]),
+    notes: [...new Set(notes)].join('\n\n'),
+    updatedAt: new Date().toISOString()
+  })
+  if (!keepSource) delete documents[fromId]
+  saveDocumentAnnotations()
+}
+
+// 登録されていない文書の設定を削除する (取り込み後に呼ぶ)。削除した件数を返す
+export function pruneDocumentAnnotations(exists: (docId: string) => boolean): number {
+  const orphans = Object.keys(documents).filter((docId) => !exists(docId))
+  for (const docId of orphans) delete documents[docId]
+  if (orphans.length > 0) saveDocumentAnnotations()
+  return orphans.length
+}
+
+export function listCollections(): CollectionSummary[] {
+  return collections.map((name) => ({
+    name,
+    documentCount: Object.values(documents).filter((doc) => doc.collections.includes(name)).length
+  }))
+}
+
+// 使われているタグと文書数 (文書数の多い順)
+export function listTags(): FacetCount[] {
+  const counts = new Map<string, number>()
+  for (const doc of Object.values(documents)) {
+    for (const tag of doc.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+export function createCollection(name: string): CollectionSummary[] {
+  const value = name.replace(/\s+/g, ' ').trim()
+  if (!value) throw new Error('Collection name is required')
+  if (findCollection(value)) throw new Error(`Collection already exists: ${value}`)
+
+  collections = [...collections, value]
+  saveDocumentAnnotations()
+  return listCollections()
+}
+
+// コレクションを削除し、各文書の所属も外す (文書とタグ・メモは残す)
+export function deleteCollection(name: string): CollectionSummary[] {
+  const existing = findCollection(name)
+  if (!existing) throw new Error(`Collection not found: ${name}`)
+
+  collections = collections.filter((collection) => collection !== existing)
+  for (const [docId, doc] of Object.entries(documents)) {
+    if (doc.collections.includes(existing)) {
+      storeAnnotations(docId, {
+        ...doc,
+        collections: doc.collections.filter((collection) => collection !== existing)
+      })
+    }
+  }
+  saveDocumentAnnotations()
+  return listCollections()
+}
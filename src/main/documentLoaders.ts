@@ -0,0 +1,131 @@
+import path from 'path'
+
+import { extractDOCXText } from './docxTextExtractor'
+import { extractHTMLText } from './htmlTextExtractor'
+import { extractPDFText, joinPages } from './pdfTextExtractor'
+import { DocumentFormat, ExtractedDocument, LoadedDocument, OutlineHeading } from './types/pdfTypes'
+
+// ファイル形式ごとの本文抽出。拡張子 (小文字、"."付き) で選ばれる
+export interface DocumentLoader {
+  format: DocumentFormat
+  extensions: string[]
+  load: (buffer: Buffer) => Promise<ExtractedDocument>
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '')
+}
+
+// 先頭のYAML front matter (--- で囲まれた key: value) を文書情報として読み、本文から除く
+function splitFrontMatter(markdown: string): { body: string; info: Record<string, unknown> } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+  const info: Record<string, unknown> = {}
+  if (!match) return { body: markdown, info }
+
+  const keys: Record<string, string> = {
+    title: 'Title',
+    author: 'Author',
+    description: 'Subject',
+    subject: 'Subject',
+    keywords: 'Keywords',
+    tags: 'Keywords',
+    date: 'CreationDate',
+    created: 'CreationDate',
+    updated: 'ModDate',
+    lang: 'Language',
+    language: 'Language'
+  }
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([\w-]+):\s*(.+)$/)
+    const key = field && keys[field[1].toLowerCase()]
+    if (!field || !key) continue
+    // [a, b] 形式の配列と引用符を外す
+    info[key] = field[2]
+      .replace(/^\[(.*)\]$/, '$1')
+      .replace(/^(["'])(.*)\1$/, '$2')
+      .trim()
+  }
+  return { body: markdown.slice(match[0].length), info }
+}
+
+// ATX見出し (# 見出し) を目次にする。コードブロック内の行は除く
+function readMarkdownHeadings(markdown: string): OutlineHeading[] {
+  const headings: OutlineHeading[] = []
+  let inCodeBlock = false
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock
+    const heading = inCodeBlock ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (heading) headings.push({ title: heading[2], level: heading[1].length, page: 1 })
+  }
+  return headings
+}
+
+const pdfLoader: DocumentLoader = {
+  format: 'pdf',
+  extensions: ['.pdf'],
+  load: extractPDFText
+}
+
+const markdownLoader: DocumentLoader = {
+  format: 'markdown',
+  extensions: ['.md', '.markdown'],
+  load: async (buffer) => {
+    const { body, info } = splitFrontMatter(decodeText(buffer))
+    // front matterにタイトルが無ければ最初の見出し (#) を使う
+    const outline = readMarkdownHeadings(body)
+    const heading = outline.find((h) => h.level === 1)
+    if (!info.Title && heading) info.Title = heading.title
+    return { ...joinPages([body]), info, outline }
+  }
+}
+
+// テキストファイルは改ページ (\f) で区切られていればページとして扱う
+const textLoader: DocumentLoader = {
+  format: 'text',
+  extensions: ['.txt', '.text'],
+  load: async (buffer) => ({ ...joinPages(decodeText(buffer).split('\f')), info: {} })
+}
+
+const htmlLoader: DocumentLoader = {
+  format: 'html',
+  extensions: ['.html', '.htm', '.xhtml'],
+  load: async (buffer) => extractHTMLText(buffer)
+}
+
+const docxLoader: DocumentLoader = {
+  format: 'docx',
+  extensions: ['.docx'],
+  load: extractDOCXText
+}
+
+const builtInLoaders = [pdfLoader, markdownLoader, textLoader, htmlLoader, docxLoader]
+const loaders: DocumentLoader[] = [...builtInLoaders]
+
+// ローダーを追加する。同じ拡張子を扱うローダーがある場合は後から登録したものを優先する
+export function registerDocumentLoader(loader: DocumentLoader): void {
+  loaders.unshift(loader)
+}
+
+export function findDocumentLoader(filePath: string): DocumentLoader | undefined {
+  const extension = path.extname(filePath).toLowerCase()
+  return loaders.find((loader) => loader.extensions.includes(extension))
+}
+
+// 組み込みのローダーで読む形式か (実行時に登録したローダーはワーカースレッドには存在しない)
+export function isBuiltInDocumentFormat(filePath: string): boolean {
+  const loader = findDocumentLoader(filePath)
+  return loader !== undefined && builtInLoaders.includes(loader)
+}
+
+export function supportedExtensions(): string[] {
+  return [...new Set(loaders.flatMap((loader) => loader.extensions))]
+}
+
+// 拡張子に対応するローダーで本文を取り出す。対応していない形式はエラー
+export async function loadDocument(filePath: string, buffer: Buffer): Promise<LoadedDocument> {
+  const loader = findDocumentLoader(filePath)
+  if (!loader) {
+    throw new Error(`Unsupported file type: ${path.extname(filePath) || path.basename(filePath)}`)
+  }
+  return { ...(await loader.load(buffer)), format: loader.format }
+}
@@ -0,0 +1,165 @@
+import { pageAtPosition } from './pdfTextExtractor'
+import { escapeRegExp } from './safeRegExp'
+import { DocumentOutline, OutlineHeading, OutlineSection } from './types/pdfTypes'
+
+// 見出しとみなす行の最大文字数
+const MAX_HEADING_LENGTH = 100
+
+// 番号の無い見出しとして扱う定型の節名
+const SECTION_NAMES =
+  /^(abstract|introduction|background|related work|methods?|methodology|materials and methods|results|discussion|conclusions?|summary|references|bibliography|acknowledge?ments?|appendix|概要|要旨|はじめに|序論|結論|まとめ|おわりに|参考文献|謝辞|付録)$/i
+
+interface PositionedHeading {
+  title: string
+  level: number
+  position: number
+}
+
+// 位置を含む行の先頭
+function lineStart(text: string, position: number): number {
+  return text.lastIndexOf('\n', position - 1) + 1
+}
+
+// 記録された見出しを本文中で探す。見つからない場合はそのページの先頭 (前の見出しより後ろ) とする
+function locateHeadings(
+  text: string,
+  pageOffsets: number[],
+  headings: OutlineHeading[]
+): PositionedHeading[] {
+  const located: PositionedHeading[] = []
+  let previous = 0
+
+  for (const heading of headings) {
+    // しおりの順序がページ順と食い違っても位置が前後しないよう、前の見出しより後ろだけを探す
+    const from = Math.max(pageOffsets[heading.page - 1] ?? previous, previous)
+    const pageEnd = Math.max(pageOffsets[heading.page] ?? text.length, from)
+
+    // PDFの本文では見出しが改行で分かれることがあるため、語の間の空白は任意の空白に一致させる
+    const words = heading.title.split(/\s+/).filter(Boolean).map(escapeRegExp)
+    const match =
+      words.length > 0
+        ? text.slice(from, pageEnd).match(new RegExp(words.join('\\s+'), 'iu'))
+        : null
+
+    const position =
+      match?.index !== undefined ? Math.max(lineStart(text, from + match.index), from) : from
+    located.push({ title: heading.title, level: heading.level, position })
+    previous = position
+  }
+  return located
+}
+
+// 1行が見出しらしければ階層と見出し文を返す
+function detectHeading(line: string): { title: string; level: number } | null {
+  if (line.length < 2 || line.length > MAX_HEADING_LENGTH) return null
+  // 目次のリーダー (....) 付きの行は見出しそのものではない
+  if (/\.{3,}|…/.test(line)) return null
+
+  const markdown = line.match(/^(#{1,6})\s+(.+?)\s*#*$/)
+  if (markdown) return { title: markdown[2], level: markdown[1].length }
+
+  // 1 Introduction / 2.3.1 Results のような番号付き見出し
+  const numbered = line.match(/^((?:\d{1,2}\.){0,3}\d{1,2})\.?\s+(\S.*)$/)
+  if (numbered) {
+    const title = numbered[2]
+    const isHeadingText =
+      /^[\p{Lu}\p{Lo}]/u.test(title) && !/[.,;:]$/.test(title) && title.split(/\s+/).length <= 12
+    return isHeadingText ? { title: line, level: numbered[1].split('.').length } : null
+  }
+
+  if (
+    /^(chapter|part|appendix)\s+[\dA-Z]+\b/i.test(line) ||
+    /^第[\d０-９一二三四五六七八九十百]+[章部]/.test(line)
+  ) {
+    return { title: line, level: 1 }
+  }
+  if (/^(section\s+\d+|第[\d０-９一二三四五六七八九十百]+節)/i.test(line)) {
+    return { title: line, level: 2 }
+  }
+  if (SECTION_NAMES.test(line)) return { title: line, level: 1 }
+
+  // 大文字だけの短い行 (INTRODUCTION, MATERIALS AND METHODS など)
+  if (
+    /^[A-Z][A-Z0-9 ,&:'()/-]{3,59}$/.test(line) &&
+    /[A-Z]{3}/.test(line) &&
+    line.split(/\s+/).length <= 8
+  ) {
+    return { title: line, level: 1 }
+  }
+  return null
+}
+
+// 見出しが記録されていない文書の見出しを行ごとの規則で推定する
+function detectHeadings(text: string): PositionedHeading[] {
+  const headings: PositionedHeading[] = []
+  let position = 0
+  let inCodeBlock = false
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim()
+    // Markdownのコードブロック内の # は見出しではない
+    if (line.startsWith('```')) inCodeBlock = !inCodeBlock
+    const heading = inCodeBlock ? null : detectHeading(line)
+    if (heading) headings.push({ ...heading, position })
+    position += rawLine.length + 1
+  }
+  return headings
+}
+
+// 見出しの位置から各セクションの範囲を求める
+function toSections(
+  headings: PositionedHeading[],
+  text: string,
+  pageOffsets: number[]
+): OutlineSection[] {
+  return headings.map((heading, index) => {
+    const next = headings.slice(index + 1).find((h) => h.level <= heading.level)
+    return {
+      title: heading.title,
+      level: heading.level,
+      page: pageAtPosition(pageOffsets, heading.position),
+      start: heading.position,
+      end: next ? next.position : text.length
+    }
+  })
+}
+
+// 記録された見出しがあればそれを使い、無ければ本文の見出しを推定して目次を作る
+export function buildOutline(
+  text: string,
+  pageOffsets: number[],
+  headings?: OutlineHeading[]
+): DocumentOutline {
+  if (headings && headings.length > 0) {
+    return {
+      source: 'embedded',
+      sections: toSections(locateHeadings(text, pageOffsets, headings), text, pageOffsets)
+    }
+  }
+  return { source: 'detected', sections: toSections(detectHeadings(text), text, pageOffsets) }
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .replace(/^#+\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+// 見出し名 (大文字小文字を区別しない)、節番号 ("2.1")、見出しの一部の順で一致するセクションを探す
+export function findSection(outline: DocumentOutline, name: string): OutlineSection | undefined {
+  const target = normalizeTitle(name)
+  if (!target) return undefined
+
+  const { sections } = outline
+  const withoutNumber = (title: string): string => title.replace(/^(?:\d+\.)*\d+\.?\s+/, '')
+  return (
+    sections.find((s) => normalizeTitle(s.title) === target) ??
+    sections.find((s) => withoutNumber(normalizeTitle(s.title)) === target) ??
+    sections.find((s) =>
+      new RegExp(`^${escapeRegExp(target)}\\.?\\s`).test(normalizeTitle(s.title))
+    ) ??
+    sections.find((s) => normalizeTitle(s.title).includes(target))
+  )
+}
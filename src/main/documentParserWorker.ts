@@ -0,0 +1,19 @@
+import { parentPort } from 'worker_threads'
+
+import { loadDocument } from './documentLoaders'
+
+// メインスレッドから受け取ったファイルを解析して結果を返す (1ワーカーにつき同時に1件)
+parentPort?.on(
+  'message',
+  async ({ filePath, buffer }: { filePath: string; buffer: Uint8Array }) => {
+    try {
+      const document = await loadDocument(
+        filePath,
+        Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+      )
+      parentPort?.postMessage({ document })
+    } catch (error) {
+      parentPort?.postMessage({ error: (error as Error).message })
+    }
+  }
+)
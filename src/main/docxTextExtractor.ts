@@ -0,0 +1,71 @@
+import JSZip from 'jszip'
+
+import { decodeEntities } from './htmlTextExtractor'
+import { joinPages } from './pdfTextExtractor'
+import { ExtractedDocument } from './types/pdfTypes'
+
+// docProps/core.xml の要素とInfo辞書のキーの対応
+const CORE_PROPERTIES: Record<string, string> = {
+  'dc:title': 'Title',
+  'dc:creator': 'Author',
+  'dc:subject': 'Subject',
+  'cp:keywords': 'Keywords',
+  'dc:language': 'Language',
+  'dcterms:created': 'CreationDate',
+  'dcterms:modified': 'ModDate'
+}
+
+function readCoreProperties(xml: string): Record<string, unknown> {
+  const info: Record<string, unknown> = {}
+  for (const [element, key] of Object.entries(CORE_PROPERTIES)) {
+    const match = xml.match(new RegExp(`<${element}\\b[^>]*>([^<]*)</${element}>`))
+    if (match) info[key] = decodeEntities(match[1]).trim()
+  }
+  return info
+}
+
+// 段落・タブ・改行とページ区切りを残してword/document.xmlの本文を取り出す
+export async function extractDOCXText(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer)
+  const documentXml = await zip.file('word/document.xml')?.async('string')
+  if (documentXml === undefined) {
+    throw new Error('Not a DOCX file: word/document.xml is missing')
+  }
+
+  let text = ''
+  // Wordが最後に描画したときのページ境界と、明示的な改ページの位置
+  const renderedBreaks: number[] = []
+  const explicitBreaks: number[] = []
+  const tokens =
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<\/w:p>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:lastRenderedPageBreak\/>/g
+
+  for (const match of documentXml.matchAll(tokens)) {
+    const token = match[0]
+    if (match[1] !== undefined) {
+      text += decodeEntities(match[1])
+    } else if (token === '</w:p>') {
+      text += '\n'
+    } else if (token === '<w:tab/>') {
+      text += '\t'
+    } else if (token.startsWith('<w:br')) {
+      if (/w:type="page"/.test(match[2] ?? '')) explicitBreaks.push(text.length)
+      else text += '\n'
+    } else {
+      renderedBreaks.push(text.length)
+    }
+  }
+
+  // 描画時のページ境界があればそれを使い、無ければ明示的な改ページで区切る
+  const breaks = renderedBreaks.length > 0 ? renderedBreaks : explicitBreaks
+  const pages: string[] = []
+  let start = 0
+  for (const position of breaks) {
+    if (position <= start) continue
+    pages.push(text.slice(start, position).trim())
+    start = position
+  }
+  pages.push(text.slice(start).trim())
+
+  const coreXml = await zip.file('docProps/core.xml')?.async('string')
+  return { ...joinPages(pages), info: coreXml ? readCoreProperties(coreXml) : {} }
+}
@@ -0,0 +1,95 @@
+import { joinPages } from './pdfTextExtractor'
+import { ExtractedDocument, OutlineHeading } from './types/pdfTypes'
+
+// 改行に置き換えるブロック要素
+const BLOCK_TAGS =
+  'address|article|aside|blockquote|br|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|td|th|tr|ul'
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–'
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? '')
+  }
+  return attributes
+}
+
+// <title>・<meta>・<html lang> から文書情報を取り出す (キーはPDFのInfo辞書に合わせる)
+function readHTMLInfo(html: string): Record<string, unknown> {
+  const info: Record<string, unknown> = {}
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  if (title) info.Title = decodeEntities(title[1]).replace(/\s+/g, ' ').trim()
+
+  const lang = html.match(/<html\b[^>]*>/i)
+  if (lang) info.Language = readAttributes(lang[0]).lang
+
+  const metaKeys: Record<string, string> = {
+    author: 'Author',
+    description: 'Subject',
+    keywords: 'Keywords',
+    generator: 'Producer',
+    'dcterms.created': 'CreationDate',
+    'dcterms.modified': 'ModDate'
+  }
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const { name, content } = readAttributes(tag)
+    const key = name && metaKeys[name.toLowerCase()]
+    if (key && content) info[key] = content
+  }
+  return info
+}
+
+// HTMLからタグを除いた本文を取り出す。ページの概念が無いため全体を1ページとする
+export function extractHTMLText(buffer: Buffer): ExtractedDocument {
+  const html = buffer.toString('utf-8').replace(/^\uFEFF/, '')
+
+  const content = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+
+  // <h1>〜<h6> を目次の見出しにする
+  const outline: OutlineHeading[] = []
+  for (const match of content.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi)) {
+    const title = decodeEntities(match[2].replace(/<[^>]+>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim()
+    if (title) outline.push({ title, level: Number(match[1]), page: 1 })
+  }
+
+  const body = content
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+    .replace(/<[^>]+>/g, '')
+
+  const text = decodeEntities(body)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\r\f\v]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { ...joinPages([text]), info: readHTMLInfo(html), outline }
+}
@@ -2,78 +2,263 @@ import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
-import fs from 'fs'
 import path from 'path'
+import fs from 'fs'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import pdfParse from 'pdf-parse'
 import { z } from 'zod'
 import dotenv from 'dotenv'
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { setupIPCHandlers } from './ipcHandlers'
 import { setupUnifiedIPCHandlers } from './ipcHandlersUnified'
-import { createPDFMcpServer, registerPDFsFromFolder, getPDFDocuments } from './pdfMcpServer'
-import { SearchMatch, SearchResultForRenderer, PDFDocumentForRenderer, SearchResponse, PDFListResponse } from './types/pdfTypes'
+import { buildPDFMcpServer, createPDFMcpServer } from './pdfMcpServer'
+import { listDocumentPrompts, registerDocumentPrompts, renderDocumentPrompt } from './pdfMcpPrompts'
+import {
+  callMcpClientTool,
+  connectMcpClients,
+  deleteMcpClientServer,
+  getMcpClientStatus,
+  initMcpClients,
+  reconnectMcpClient,
+  saveMcpClientServer,
+  setMcpClientStatusListener,
+  stopMcpClients
+} from './mcpClientManager'
+import {
+  getMcpHttpStatus,
+  initMcpHttpServer,
+  regenerateMcpHttpToken,
+  startMcpHttpServer,
+  stopMcpHttpServer,
+  updateMcpHttpConfig
+} from './mcpHttpServer'
+import { runToolAgent } from './toolAgent'
+import { isMcpStdioMode, redirectConsoleToStderr, runPDFMcpStdioServer } from './pdfMcpStdio'
+import { initPDFIndexStore, pruneMissingPDFs, savePDFIndexStore } from './pdfIndexStore'
+import {
+  continueSearch,
+  filterDocuments,
+  getDocument,
+  getDocumentByPath,
+  getDocumentCount,
+  listDocuments,
+  removeDocumentsOutsideRoots,
+  searchDocuments,
+  getSummary,
+  setSummary
+} from './pdfDocumentStore'
+import { toRendererSearchResult } from './pdfSearchIndex'
+import { decodeSearchCursor, SearchCursorState } from './searchCursor'
+import {
+  combineFilters,
+  maxEditsSchema,
+  searchModeSchema,
+  searchParametersSchema,
+  searchSortSchema
+} from './searchQueryParser'
+import { toRendererDocumentInfo } from './pdfMetadata'
+import {
+  createLibraryRoot,
+  findRootForPath,
+  getLibraryConfig,
+  getLibraryRoots,
+  initLibraryConfig,
+  scanLibraryRoot,
+  updateLibraryConfig
+} from './libraryConfig'
+import { startPDFFolderWatcher, stopPDFFolderWatcher } from './pdfFolderWatcher'
+import { pageRangeBounds } from './pdfTextExtractor'
+import { supportedExtensions } from './documentLoaders'
+import { findSection } from './documentOutline'
+import {
+  clearSearchHistory,
+  deleteSavedSearch,
+  getSearchHistory,
+  initSavedSearches,
+  listSavedSearches,
+  markSavedSearchRun,
+  recordSearchHistory,
+  saveSearch,
+  searchParametersToOptions
+} from './savedSearches'
+import { buildSearchExport, formatSearchExport, SEARCH_EXPORT_FILE_TYPES } from './searchExport'
+import {
+  createCollection,
+  deleteCollection,
+  getDocumentAnnotations,
+  initDocumentAnnotations,
+  listCollections,
+  listTags,
+  pruneDocumentAnnotations,
+  updateDocumentAnnotations
+} from './documentAnnotations'
+import {
+  getIngestionJobs,
+  ingestLibraryRoot,
+  setIngestionEventListener,
+  stopIngestionWorkers
+} from './ingestionQueue'
+import {
+  LibraryConfig,
+  LibraryRoot,
+  FacetSelection,
+  PDFDocument,
+  RankedSearchPage,
+  SearchMode,
+  SearchQueryNode,
+  SearchSort,
+  SearchResultForRenderer,
+  PDFDocumentForRenderer,
+  SearchResponse,
+  PDFListResponse,
+  PDFLibraryChangeEvent,
+  IngestionEvent,
+  IngestionJobStatus,
+  McpHttpStatus,
+  McpClientServerConfig,
+  McpClientStatus,
+  McpToolCallResponse,
+  ToolAgentRequest,
+  ToolAgentResponse,
+  DocumentPromptInfo,
+  DocumentPromptResponse,
+  DocumentOutlineResponse,
+  DocumentAnnotations,
+  SearchExportResponse,
+  SearchParameters,
+  SearchHistoryEntry,
+  SavedSearchSummary
+} from './types/pdfTypes'
 
 dotenv.config()
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI ?? "");
 
 // グローバルでMCPサーバーのインスタンスを保持
 let mcpServer: McpServer | null = null
-let pdfContexts: { [pdfPath: string]: string } = {} // PDFファイルパス→テキストコンテンツ
-let pdfSummaries: { [pdfPath: string]: { summary: string; contextId: string } } = {}
 
-async function createMcpServer(): Promise<void> {
-  if (mcpServer) return // 既に作成済み
+// ツール引数のdocIdまたはpdfPathからドキュメントストアのPDFを取得
+function resolveDocument({
+  docId,
+  pdfPath
+}: {
+  docId?: string
+  pdfPath?: string
+}): PDFDocument | undefined {
+  if (docId) return getDocument(docId)
+  if (pdfPath) return getDocumentByPath(pdfPath)
+  return undefined
+}
 
-  // MCPサーバーを作成
-  mcpServer = new McpServer({
+// 解析用のツールを登録したMCPサーバーを新しく作る (HTTPではセッションごとに作る)
+function buildAnalyzerMcpServer(): McpServer {
+  const server = new McpServer({
     name: 'pdf-analyzer-server',
     version: '1.0.0'
   })
 
   // PDFテキスト取得ツールを登録
-  mcpServer.registerTool('get-pdf-content',
+  server.registerTool(
+    'get-pdf-content',
     {
       title: 'Get PDF Content',
-      description: 'Get the text content of a PDF file',
+      description: 'Get the text content of a PDF file, or of one section or page range of it',
       inputSchema: {
-        pdfPath: z.string()
+        pdfPath: z.string().optional(),
+        docId: z.string().optional(),
+        section: z
+          .string()
+          .optional()
+          .describe(
+            'Section title or number, e.g. "Introduction" or "2.1". Takes precedence over startPage'
+          ),
+        startPage: z.number().int().min(1).optional().describe('First page to return (1-based)'),
+        endPage: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Last page to return, inclusive (default: startPage)')
       }
     },
-    async ({ pdfPath }) => {
-      const content = pdfContexts[pdfPath]
-      if (!content) {
+    async ({ pdfPath, docId, section, startPage, endPage }) => {
+      const doc = resolveDocument({ docId, pdfPath })
+      if (!doc?.content) {
         return {
           content: [{ type: 'text', text: 'PDF not found or not loaded' }]
         }
       }
+      if (section) {
+        const found = findSection(doc.outline, section)
+        return {
+          content: [
+            {
+              type: 'text',
+              text: found
+                ? doc.content.slice(found.start, found.end)
+                : `Section not found: ${section}`
+            }
+          ]
+        }
+      }
+      if (startPage !== undefined) {
+        const bounds = pageRangeBounds(
+          doc.pageOffsets,
+          doc.content.length,
+          startPage,
+          endPage ?? startPage
+        )
+        return {
+          content: [
+            {
+              type: 'text',
+              text: bounds
+                ? doc.content.slice(bounds.start, bounds.end)
+                : `Page range out of bounds (document has ${doc.metadata.pages} pages)`
+            }
+          ]
+        }
+      }
       return {
-        content: [{ type: 'text', text: content }]
+        content: [{ type: 'text', text: doc.content }]
       }
     }
   )
 
   // PDF要約ツールを登録
-  mcpServer.registerTool('summarize-pdf',
+  server.registerTool(
+    'summarize-pdf',
       {
       title: 'Summarize PDF',
       description: 'Summarize the content of a PDF file',
       inputSchema: {
-        pdfPath: z.string(),
-        prompt: z.string().optional()
+        pdfPath: z.string().optional(),
+        docId: z.string().optional(),
+        length: z
+          .enum(['one-sentence', 'short', 'detailed'])
+          .optional()
+          .describe('Length of the summary (default: short)'),
+        language: z
+          .string()
+          .optional()
+          .describe('Language of the summary (default: the language of the document)'),
+        prompt: z.string().optional().describe('Additional instructions for the summary')
       }
     },
-    async ({ pdfPath, prompt }) => {
-      const content = pdfContexts[pdfPath]
-      if (!content) {
+    async ({ pdfPath, docId, length, language, prompt }) => {
+      const doc = resolveDocument({ docId, pdfPath })
+      if (!doc?.content) {
         return {
           content: [{ type: 'text', text: 'PDF not found or not loaded' }]
         }
       }
 
-      // Gemini呼び出し
+      // Gemini呼び出し (プロンプトはMCPのsummarize-documentと共通)
       const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-      const promptText = `以下のPDF内容を要約してください。\n${prompt ?? content}`
+      let promptText = renderDocumentPrompt('summarize-document', {
+        docId: doc.id,
+        length,
+        language
+      })
+      if (prompt) promptText += `\n\nAdditional instructions: ${prompt}`
       const result = await model.generateContent(promptText)
       const response = await result.response.text()
       console.log("¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥¥")
@@ -86,86 +271,95 @@ async function createMcpServer(): Promise<void> {
   )
 
   // PDF検索ツール（新しいPDF MCP Serverを使用）
-  mcpServer.registerTool('search-pdf-content',
+  server.registerTool(
+    'search-pdf-content',
     {
       title: 'Search PDF Content',
       description: 'Search for text within PDF documents',
       inputSchema: {
         query: z.string().describe('Search query'),
-        maxResults: z.number().optional().describe('Maximum number of results')
+        mode: searchModeSchema
+          .optional()
+          .describe(
+            'query (default): search syntax with phrases and AND/OR/NOT; literal: exact string; ' +
+              'regex: regular expression; fuzzy: tolerate typos and OCR errors'
+          ),
+        maxEdits: maxEditsSchema
+          .optional()
+          .describe('Maximum edit distance per word in fuzzy mode (0-2, default: 1)'),
+        maxResults: z.number().optional().describe('Maximum number of results'),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'nextCursor from a previous response to get the next page (overrides the other options)'
+          )
       }
     },
-    async ({ query, maxResults = 5 }) => {
-      const pdfDocs = getPDFDocuments()
-      const results: SearchResultForRenderer[] = []
-      const queryLower = query.toLowerCase()
-      
-      for (const doc of Object.values(pdfDocs)) {
-        const contentLower = doc.content.toLowerCase()
-        const matches: SearchMatch[] = []
-        let startIndex = 0
-        
-        // Find all occurrences in this document
-        while (startIndex < contentLower.length && matches.length < 3) {
-          const index = contentLower.indexOf(queryLower, startIndex)
-          if (index === -1) break
-          
-          const contextStart = Math.max(0, index - 100)
-          const contextEnd = Math.min(doc.content.length, index + query.length + 100)
-          const context = doc.content.substring(contextStart, contextEnd)
-          
-          matches.push({
-            position: index,
-            context: context.trim(),
-            preview: context.replace(new RegExp(query, 'gi'), `**${query}**`)
-          })
-          
-          startIndex = index + query.length
-        }
-        
-        if (matches.length > 0) {
-          results.push({
-            filename: doc.filename,
-            docId: doc.id,
-            filePath: doc.filePath,
-            totalMatches: matches.length,
-            matches: matches,
-            metadata: {
-              pages: doc.metadata.pages,
-              size: doc.metadata.size,
-              createdAt: doc.metadata.createdAt.toISOString()
+    async ({ query, mode = 'query', maxEdits, maxResults = 5, cursor }) => {
+      let page: RankedSearchPage
+      try {
+        page = cursor
+          ? continueSearch(cursor)
+          : searchDocuments(query, {
+              mode,
+              maxEdits,
+              maxResults,
+              maxMatchesPerDocument: 3,
+              contextLength: 100
+            })
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2)
             }
-          })
+          ]
         }
-        
-        if (results.length >= maxResults) break
       }
-      
+      const results: SearchResultForRenderer[] = page.hits.map(toRendererSearchResult)
+
       return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            query,
-            totalResults: results.length,
-            results
-          }, null, 2)
-        }]
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                query,
+                mode,
+                totalResults: page.totalHits,
+                totalMatches: page.totalMatches,
+                nextCursor: page.nextCursor,
+                results
+              },
+              null,
+              2
+            )
+          }
+        ]
       }
     }
   )
 
   // PDFリストツールを登録
-  mcpServer.registerTool('list-pdfs',
+  server.registerTool(
+    'list-pdfs',
     {
       title: 'List PDFs',
       description: 'List all loaded PDF files',
       inputSchema: {}
     },
     async () => {
-      const pdfList = Object.keys(pdfContexts).map(pdfPath => ({
-        path: pdfPath,
-        name: path.basename(pdfPath),
-        size: pdfContexts[pdfPath].length
+      const pdfList = listDocuments().map((doc) => ({
+        docId: doc.id,
+        path: doc.filePath,
+        name: doc.filename,
+        format: doc.format,
+        title: doc.metadata.info.title,
+        author: doc.metadata.info.author,
+        size: doc.content.length,
+        summary: getSummary(doc.id)?.summary
       }))
       console.log('PDF List:', pdfList)
 
@@ -178,6 +372,16 @@ async function createMcpServer(): Promise<void> {
     }
   )
 
+  registerDocumentPrompts(server)
+
+  return server
+}
+
+async function createMcpServer(): Promise<void> {
+  if (mcpServer) return // 既に作成済み
+
+  // MCPサーバーを作成
+  mcpServer = buildAnalyzerMcpServer()
   console.log('MCP Server created with PDF tools')
 }
 
@@ -188,18 +392,13 @@ async function preloadAllPdfsToGemini(llm: string = 'gemini-1.5-flash'): Promise
     const MAX_LENGTH = 4000
     const results: { file: string; summary: string; contextId: string }[] = []
 
-    for (const [pdfPath, contentRaw] of Object.entries(pdfContexts)) {
-      let content = contentRaw
-      if (content.length > MAX_LENGTH) {
-        content = content.slice(0, MAX_LENGTH) + '\n...（省略されています）'
-      }
-      const promptText = `
-ファイル名: ${path.basename(pdfPath)}
-----------------------------
-${content}
-----------------------------
-このPDFの要点を一文でまとめてください。またのちほどデータに対して[ファイル名:]がついていない形式で質問します。
-`.trim()
+    for (const doc of listDocuments()) {
+      const pdfPath = doc.filePath
+      const promptText = renderDocumentPrompt(
+        'summarize-document',
+        { docId: doc.id, length: 'one-sentence', language: 'Japanese' },
+        { maxContentLength: MAX_LENGTH }
+      )
       try {
         // 1. Geminiで要約
         const result = await model.generateContent(promptText)
@@ -214,12 +413,12 @@ ${content}
             content: summary,
             metadata: {
               source: path.basename(pdfPath),
-              type: 'pdf'
+              type: doc.format
             }
           })
           contextId = ctx?.id ?? ''
         }
-        pdfSummaries[pdfPath] = { summary, contextId }
+        setSummary(doc.id, { summary, contextId })
         results.push({ file: pdfPath, summary, contextId })
         console.log(`[MCP preload] ${pdfPath}: summary="${summary}", contextId=${contextId}`)
       } catch (e) {
@@ -233,40 +432,49 @@ ${content}
   }
 }
 
-async function prepareMcpContexts(targetFolder: string): Promise<void> {
+async function prepareMcpContexts(roots: LibraryRoot[]): Promise<void> {
   try {
     // MCPサーバーを作成・起動
     await createMcpServer()
 
-    // ./data フォルダ内の全PDFを取得
-    const dataDir = path.join(process.cwd(), targetFolder)
-    if (!fs.existsSync(dataDir)) {
-      console.log(`Directory ${dataDir} does not exist`)
-      return
-    }
-
-    const files = fs.readdirSync(dataDir)
-      .filter(f => f.toLowerCase().endsWith('.pdf'))
-      .map(f => path.join(dataDir, f))
-
-    // 各PDFを読み込んでメモリに保存
-    for (const pdfPath of files) {
-      try {
-        const buffer = fs.readFileSync(pdfPath)
-        const parsed = await pdfParse(buffer)
-        pdfContexts[pdfPath] = parsed.text
-        console.log(`PDF loaded: ${path.basename(pdfPath)} (${parsed.text.length} characters)`)
-      } catch (error) {
-        console.error(`Error loading PDF ${pdfPath}:`, error)
-      }
+    // 各ライブラリルート配下の文書をワーカースレッドで解析してドキュメントストアに登録
+    for (const root of roots) {
+      await ingestLibraryRoot(root)
     }
 
-    console.log(`Loaded ${Object.keys(pdfContexts).length} PDF files`)
+    pruneMissingPDFs()
+    pruneDocumentAnnotations((docId) => getDocument(docId) !== undefined)
+    savePDFIndexStore()
+    console.log(`Loaded ${getDocumentCount()} PDF files`)
   } catch (error) {
     console.error('Error preparing MCP contexts:', error)
   }
 }
 
+// ライブラリルートの変更を監視し、登録内容とレンダラーの一覧を自動更新
+async function watchLibraryRoots(): Promise<void> {
+  await stopPDFFolderWatcher()
+  startPDFFolderWatcher(getLibraryRoots(), (event: PDFLibraryChangeEvent) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('pdf-library-changed', event)
+    })
+  })
+}
+
+// 取り込みジョブの進捗・失敗・完了をレンダラーへ送る
+function sendIngestionEvent(event: IngestionEvent): void {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('pdf-ingestion-progress', event)
+  })
+}
+
+// 外部MCPサーバーへの接続状態の変化をレンダラーへ送る
+function sendMcpClientStatus(status: McpClientStatus[]): void {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('mcp-clients-changed', status)
+  })
+}
+
 function createWindow(): void {
   // Create the browser window.
   const mainWindow = new BrowserWindow({
@@ -303,16 +511,50 @@ function createWindow(): void {
   }
 }
 
+// 外部のMCPクライアントから --mcp-stdio 付きで起動された場合は、標準出力をJSON-RPCに使う
+const mcpStdioMode = isMcpStdioMode()
+if (mcpStdioMode) redirectConsoleToStderr()
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.whenReady().then( async () => {
-  await prepareMcpContexts('data')
+  // ウィンドウとIPCは用意せず、アプリと同じインデックスを使う検索用MCPサーバーだけを動かす
+  if (mcpStdioMode) {
+    app.dock?.hide()
+    await runPDFMcpStdioServer(app.getPath('userData'), () => app.quit()).catch((error) => {
+      console.error('Error running the MCP server on stdio:', error)
+      app.exit(1)
+    })
+    return
+  }
+
+  // 解析済みPDFのインデックスを読み込み、未変更ファイルの再解析を避ける
+  initPDFIndexStore(app.getPath('userData'))
+  initLibraryConfig(app.getPath('userData'))
+  initDocumentAnnotations(app.getPath('userData'))
+  initSavedSearches(app.getPath('userData'))
+  setIngestionEventListener(sendIngestionEvent)
+  // 取り込みはバックグラウンドで進め、進捗はpdf-ingestion-progressでウィンドウに送る
+  prepareMcpContexts(getLibraryRoots())
   // await preloadAllPdfsToGemini() 
   
   // Setup PDF MCP Server for search
   await createPDFMcpServer()
-  await registerPDFsFromFolder('data')
+
+  // 別プロセスのツールからも使えるよう、両方のMCPサーバーをlocalhostのStreamable HTTPで公開する
+  const mcpHttpConfig = initMcpHttpServer(app.getPath('userData'), [
+    { name: 'pdf-search-server', path: '/mcp/pdf-search', create: buildPDFMcpServer },
+    { name: 'pdf-analyzer-server', path: '/mcp/pdf-analyzer', create: buildAnalyzerMcpServer }
+  ])
+  if (mcpHttpConfig.enabled) void startMcpHttpServer()
+
+  // 設定済みの外部MCPサーバーにはバックグラウンドで接続し、状態はmcp-clients-changedで送る
+  initMcpClients(app.getPath('userData'))
+  setMcpClientStatusListener(sendMcpClientStatus)
+  void connectMcpClients()
+
+  await watchLibraryRoots()
   
   // Setup IPC handlers for LLM Chain
   setupIPCHandlers()
@@ -334,7 +576,12 @@ app.whenReady().then( async () => {
   ipcMain.handle('select-pdf', async () => {
     const result = await dialog.showOpenDialog({
       properties: ['openFile'],
-      filters: [{ name: 'PDF', extensions: ['pdf'] }]
+      filters: [
+        {
+          name: 'Documents',
+          extensions: supportedExtensions().map((extension) => extension.slice(1))
+        }
+      ]
     })
     if (result.canceled || result.filePaths.length === 0) {
       return { filePath: null }
@@ -389,29 +636,22 @@ app.whenReady().then( async () => {
       return { pdfFiles: [] }
     }
     const folderPath = result.filePaths[0]
-    const files = fs.readdirSync(folderPath)
-    const pdfFiles = files
-      .filter((f) => f.toLowerCase().endsWith('.pdf'))
-      .map((f) => path.join(folderPath, f))
+    const pdfFiles = scanLibraryRoot(createLibraryRoot(folderPath))
     return { pdfFiles }
   })
 
   ipcMain.handle('all-pdf-folder', async () => {
-    const dataDir = path.join(process.cwd(), 'data')
-    if (!fs.existsSync(dataDir)) {
-      return { allFiles: [] }
-    }
-    const files = fs.readdirSync(dataDir)
-    const allFiles = [{
-      folder: dataDir,
-      files: files.map(f => path.join(dataDir, f))
-    }]
+    // 各ライブラリルートのinclude/excludeに一致するファイルのみ返す
+    const allFiles = getLibraryRoots().map((root) => ({
+      folder: root.path,
+      files: scanLibraryRoot(root)
+    }))
     // ログ出力で確認
     allFiles.forEach(({ folder, files }) => {
       console.log(`フォルダ: ${folder}`)
-      files.forEach(f => console.log(`  ${f}`))
+      files.forEach((f) => console.log(`  ${f}`))
     })
-    console.log('pdfContexts:', pdfContexts)
+    console.log('Registered PDFs:', getDocumentCount())
     return { allFiles }
   })
 
@@ -419,7 +659,8 @@ app.whenReady().then( async () => {
   ipcMain.handle('mcp-request', async (_event, { llm, pdfPath, prompt }) => {
     console.log('MCP request received:', { llm, pdfPath, prompt })
     try {
-      if (!mcpServer || !pdfContexts[pdfPath]) {
+      const doc = getDocumentByPath(pdfPath)
+      if (!mcpServer || !doc) {
         return {
           success: false,
           error: 'MCPサーバーが未起動、またはPDFが未登録です'
@@ -428,7 +669,7 @@ app.whenReady().then( async () => {
 
     const model = genAI.getGenerativeModel({ model: llm || 'gemini-1.5-flash' })
     const fileName = path.basename(pdfPath)
-    let content = pdfContexts[pdfPath]
+    let content = doc.content
 
     // 上限（例: 4000文字）を超える場合は先頭のみ利用
     const MAX_LENGTH = 4000
@@ -463,15 +704,17 @@ ${content}
   })
 
   // フォルダからPDFを再読み込み
-  ipcMain.handle('reload-pdfs', async (_event, folderPath) => {
+  ipcMain.handle('reload-pdfs', async (_event, folderPath?: string) => {
     try {
-      await prepareMcpContexts(folderPath)
+      // フォルダ指定が無ければ設定済みの全ルートを再走査
+      const roots = folderPath
+        ? [findRootForPath(folderPath) ?? createLibraryRoot(folderPath)]
+        : getLibraryRoots()
+      await prepareMcpContexts(roots)
       await preloadAllPdfsToGemini() 
-      // PDF検索サーバーにも再登録
-      await registerPDFsFromFolder(folderPath)
       return {
         success: true,
-        count: Object.keys(pdfContexts).length
+        count: getDocumentCount()
       }
     } catch (error) {
       return {
@@ -481,96 +724,407 @@ ${content}
     }
   })
 
-  // PDF検索機能
-  ipcMain.handle('search-pdf-documents', async (_event, query: string, maxResults: number = 10): Promise<SearchResponse> => {
+  // 実行中の取り込みジョブ (ウィンドウを開く前に始まったジョブの進捗表示用)
+  ipcMain.handle('get-ingestion-status', async (): Promise<IngestionJobStatus[]> => {
+    return getIngestionJobs()
+  })
+
+  // ライブラリ設定 (ルート、include/excludeパターン、解析の同時実行数) の取得・更新
+  ipcMain.handle('get-library-config', async (): Promise<LibraryConfig> => {
+    return getLibraryConfig()
+  })
+
+  ipcMain.handle('set-library-config', async (_event, config: LibraryConfig) => {
     try {
-      const pdfDocs = getPDFDocuments()
-      const results: SearchResultForRenderer[] = []
-      const queryLower = query.toLowerCase()
-      
-      for (const doc of Object.values(pdfDocs)) {
-        const contentLower = doc.content.toLowerCase()
-        const matches: SearchMatch[] = []
-        let startIndex = 0
-        
-        // Find all occurrences
-        while (startIndex < contentLower.length && matches.length < maxResults) {
-          const index = contentLower.indexOf(queryLower, startIndex)
-          if (index === -1) break
-          
-          // Extract context around match
-          const contextStart = Math.max(0, index - 150)
-          const contextEnd = Math.min(doc.content.length, index + query.length + 150)
-          const context = doc.content.slice(contextStart, contextEnd)
-          
-          matches.push({
-            position: index,
-            context: context.trim(),
-            preview: context.replace(new RegExp(query, 'gi'), `**${query}**`)
-          })
-          
-          startIndex = index + query.length
-        }
-        
-        if (matches.length > 0) {
-          results.push({
-            filename: doc.filename,
-            docId: doc.id,
-            filePath: doc.filePath,
-            totalMatches: matches.length,
-            matches: matches.slice(0, 3), // Show top 3 matches per document
-            metadata: {
-              pages: doc.metadata.pages,
-              size: doc.metadata.size,
-              createdAt: doc.metadata.createdAt.toISOString()
+      const updated = updateLibraryConfig(config)
+      // 対象外になったファイルを外してから新しいルートを走査し直す
+      removeDocumentsOutsideRoots(updated.roots)
+      await prepareMcpContexts(updated.roots)
+      await watchLibraryRoots()
+      return { success: true, config: updated, count: getDocumentCount() }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // PDF検索機能
+  ipcMain.handle(
+    'search-pdf-documents',
+    async (
+      _event,
+      query: string | SearchQueryNode,
+      maxResults: number = 10,
+      options: {
+        mode?: SearchMode
+        maxEdits?: number
+        cursor?: string
+        facets?: FacetSelection[]
+        sort?: SearchSort
+        tag?: string
+        collection?: string
+      } = {}
+    ): Promise<SearchResponse> => {
+      try {
+        let request: SearchCursorState
+        let params: SearchParameters | null = null
+        // カーソルがある場合は保存された条件で続きのページ (または文書内の続きの一致) を取得する
+        if (options.cursor) {
+          request = decodeSearchCursor(options.cursor)
+        } else {
+          // 構造化クエリと絞り込みは形式を検証してから使う
+          params = searchParametersSchema.parse({ ...options, query })
+          // 各文書は先頭3件の一致を表示する
+          request = {
+            query: params.query,
+            options: {
+              ...searchParametersToOptions(params),
+              maxResults,
+              maxMatchesPerDocument: 3,
+              contextLength: 150
             }
-          })
+          }
+        }
+
+        const page = searchDocuments(request.query, request.options)
+        // 続きのページの取得は履歴に残さない
+        if (params) recordSearchHistory(params, page.totalHits)
+        const results: SearchResultForRenderer[] = page.hits.map(toRendererSearchResult)
+
+        return {
+          success: true,
+          query: request.query,
+          mode: request.options.mode ?? 'query',
+          totalDocuments: getDocumentCount(),
+          totalResults: page.totalHits,
+          totalMatches: page.totalMatches,
+          offset: page.offset,
+          nextCursor: page.nextCursor,
+          facets: page.facets,
+          resultsFound: results.length,
+          results
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message
         }
-        
-        if (results.length >= maxResults) break
       }
-      
-      return {
-        success: true,
-        query,
-        totalDocuments: Object.keys(pdfDocs).length,
-        resultsFound: results.length,
-        results
+    }
+  )
+
+  // 検索結果をCSV・JSON・Markdownで保存する (表示中のページに関係なく該当するすべての文書を書き出す)
+  ipcMain.handle(
+    'export-search-results',
+    async (
+      event,
+      query: string | SearchQueryNode,
+      options: {
+        mode?: SearchMode
+        maxEdits?: number
+        facets?: FacetSelection[]
+        sort?: SearchSort
+        tag?: string
+        collection?: string
+      } = {},
+      format: string = 'csv'
+    ): Promise<SearchExportResponse> => {
+      try {
+        const params = searchParametersSchema.parse({ ...options, query })
+        const exportFormat = z.enum(['csv', 'json', 'markdown']).parse(format)
+        const report = buildSearchExport(params.query, searchParametersToOptions(params))
+
+        const fileType = SEARCH_EXPORT_FILE_TYPES[exportFormat]
+        const owner = BrowserWindow.fromWebContents(event.sender)
+        const dialogOptions = {
+          title: 'Export search results',
+          defaultPath: `search-results.${fileType.extension}`,
+          filters: [{ name: fileType.name, extensions: [fileType.extension] }]
+        }
+        const result = owner
+          ? await dialog.showSaveDialog(owner, dialogOptions)
+          : await dialog.showSaveDialog(dialogOptions)
+        if (result.canceled || !result.filePath) {
+          return { success: false, canceled: true }
+        }
+
+        await fs.promises.writeFile(
+          result.filePath,
+          formatSearchExport(report, exportFormat),
+          'utf-8'
+        )
+        return {
+          success: true,
+          filePath: result.filePath,
+          exportedMatches: report.results.reduce((sum, doc) => sum + doc.matches.length, 0)
+        }
+      } catch (error) {
+        return { success: false, error: (error as Error).message }
+      }
+    }
+  )
+
+  // MCPサーバーのHTTP公開の状態と接続URL
+  ipcMain.handle('get-mcp-http-status', async (): Promise<McpHttpStatus> => {
+    return getMcpHttpStatus()
+  })
+
+  ipcMain.handle(
+    'set-mcp-http-config',
+    async (_event, update: { enabled?: boolean; port?: number }) => {
+      try {
+        const parsed = z
+          .object({
+            enabled: z.boolean().optional(),
+            port: z.number().int().min(1024).max(65535).optional()
+          })
+          .parse(update)
+        return { success: true, status: await updateMcpHttpConfig(parsed) }
+      } catch (error) {
+        return { success: false, error: (error as Error).message }
       }
+    }
+  )
+
+  ipcMain.handle('regenerate-mcp-http-token', async (): Promise<McpHttpStatus> => {
+    return regenerateMcpHttpToken()
+  })
+
+  // 外部MCPサーバーの接続先・接続状態・ツール
+  ipcMain.handle('get-mcp-clients', async (): Promise<McpClientStatus[]> => {
+    return getMcpClientStatus()
+  })
+
+  ipcMain.handle('save-mcp-client', async (_event, config: McpClientServerConfig) => {
+    try {
+      return { success: true, status: await saveMcpClientServer(config) }
     } catch (error) {
-      return {
-        success: false,
-        error: (error as Error).message
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('delete-mcp-client', async (_event, id: string) => {
+    try {
+      return { success: true, status: await deleteMcpClientServer(id) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('reconnect-mcp-client', async (_event, id: string) => {
+    try {
+      return { success: true, status: await reconnectMcpClient(id) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle(
+    'call-mcp-client-tool',
+    async (
+      _event,
+      serverId: string,
+      name: string,
+      args: Record<string, unknown> = {}
+    ): Promise<McpToolCallResponse> => {
+      return callMcpClientTool(serverId, name, args)
+    }
+  )
+
+  // LLMが検索ツールを自分で呼びながら回答する。ツール呼び出しのたびにtool-agent-stepで経過を送る
+  ipcMain.handle(
+    'run-tool-agent',
+    async (event, request: ToolAgentRequest, runId: string): Promise<ToolAgentResponse> => {
+      return runToolAgent(request, (step) => {
+        if (!event.sender.isDestroyed()) event.sender.send('tool-agent-step', { runId, step })
+      })
+    }
+  )
+
+  // MCPサーバーに登録している定型プロンプト
+  ipcMain.handle('get-document-prompts', async (): Promise<DocumentPromptInfo[]> => {
+    return listDocumentPrompts()
+  })
+
+  // プロンプトを組み立て、runが指定されていればGeminiで実行する
+  ipcMain.handle(
+    'run-document-prompt',
+    async (
+      _event,
+      name: string,
+      args: Record<string, string>,
+      options: { run?: boolean; llm?: string } = {}
+    ): Promise<DocumentPromptResponse> => {
+      try {
+        const prompt = renderDocumentPrompt(name, args)
+        if (!options.run) return { success: true, prompt }
+
+        const model = genAI.getGenerativeModel({ model: options.llm || 'gemini-1.5-flash' })
+        const result = await model.generateContent(prompt)
+        return { success: true, prompt, response: result.response.text() }
+      } catch (error) {
+        console.error('Document prompt error:', error)
+        return { success: false, error: (error as Error).message }
       }
     }
+  )
+
+  // 検索履歴 (新しい順)
+  ipcMain.handle('get-search-history', async (): Promise<SearchHistoryEntry[]> => {
+    return getSearchHistory()
   })
 
-  // 登録済みPDF一覧取得
-  ipcMain.handle('get-registered-pdfs', async (): Promise<PDFListResponse> => {
+  ipcMain.handle('clear-search-history', async () => {
+    try {
+      await clearSearchHistory()
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // 保存済み検索。includeCountsを指定すると前回の実行後に新しく該当するようになった文書の数も求める
+  ipcMain.handle(
+    'get-saved-searches',
+    async (_event, options: { includeCounts?: boolean } = {}): Promise<SavedSearchSummary[]> => {
+      return listSavedSearches({ includeCounts: options.includeCounts === true })
+    }
+  )
+
+  ipcMain.handle('save-search', async (_event, name: string, params: SearchParameters) => {
     try {
-      const pdfDocs = getPDFDocuments()
-      const documentList: PDFDocumentForRenderer[] = Object.values(pdfDocs).map(doc => ({
-        docId: doc.id,
-        filename: doc.filename,
-        filePath: doc.filePath,
-        pages: doc.metadata.pages,
-        contentLength: doc.content.length,
-        createdAt: doc.metadata.createdAt.toISOString()
-      }))
-      
       return {
         success: true,
-        totalDocuments: documentList.length,
-        documents: documentList
+        savedSearch: await saveSearch(z.string().parse(name), searchParametersSchema.parse(params))
       }
     } catch (error) {
-      return {
-        success: false,
-        error: (error as Error).message
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // 保存済み検索を実行する前に呼び、実行したことを記録して検索条件を返す
+  ipcMain.handle('run-saved-search', async (_event, id: string) => {
+    try {
+      return { success: true, savedSearch: await markSavedSearchRun(id) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('delete-saved-search', async (_event, id: string) => {
+    try {
+      await deleteSavedSearch(id)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // 登録済みPDF一覧取得
+  ipcMain.handle(
+    'get-registered-pdfs',
+    async (
+      _event,
+      options: { filter?: string; sort?: SearchSort; tag?: string; collection?: string } = {}
+    ): Promise<PDFListResponse> => {
+      try {
+        const sort = options.sort ? searchSortSchema.parse(options.sort) : undefined
+        const filter = combineFilters(options.filter || undefined, {
+          tag: options.tag,
+          collection: options.collection
+        })
+        const documentList: PDFDocumentForRenderer[] = filterDocuments(filter, sort).map((doc) => ({
+          docId: doc.id,
+          filename: doc.filename,
+          filePath: doc.filePath,
+          format: doc.format,
+          rootPath: doc.rootPath,
+          duplicatePaths: doc.duplicatePaths ?? [],
+          pages: doc.metadata.pages,
+          contentLength: doc.content.length,
+          createdAt: doc.metadata.createdAt.toISOString(),
+          info: toRendererDocumentInfo(doc.metadata.info),
+          sectionCount: doc.outline.sections.length,
+          ...getDocumentAnnotations(doc.id)
+        }))
+
+        return {
+          success: true,
+          totalDocuments: documentList.length,
+          documents: documentList
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message
+        }
+      }
+    }
+  )
+
+  // 文書のタグ・コレクション・メモの更新
+  ipcMain.handle(
+    'update-document-annotations',
+    async (_event, docId: string, update: Partial<DocumentAnnotations>) => {
+      try {
+        if (!getDocument(docId)) {
+          return { success: false, error: 'Document not found' }
+        }
+        const annotations = updateDocumentAnnotations(docId, {
+          tags: z.array(z.string()).optional().parse(update.tags),
+          collections: z.array(z.string()).optional().parse(update.collections),
+          notes: z.string().optional().parse(update.notes)
+        })
+        return { success: true, annotations }
+      } catch (error) {
+        return { success: false, error: (error as Error).message }
       }
     }
+  )
+
+  // コレクションとタグの一覧 (文書数付き)
+  ipcMain.handle('get-collections', async () => {
+    return { success: true, collections: listCollections(), tags: listTags() }
+  })
+
+  ipcMain.handle('create-collection', async (_event, name: string) => {
+    try {
+      return { success: true, collections: createCollection(z.string().parse(name)) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle('delete-collection', async (_event, name: string) => {
+    try {
+      return { success: true, collections: deleteCollection(z.string().parse(name)) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
   })
 
+  // 文書の目次 (見出しと各セクションの長さ)
+  ipcMain.handle(
+    'get-document-outline',
+    async (_event, docId: string): Promise<DocumentOutlineResponse> => {
+      const doc = getDocument(docId)
+      if (!doc) {
+        return { success: false, error: 'Document not found' }
+      }
+      return {
+        success: true,
+        docId: doc.id,
+        filename: doc.filename,
+        source: doc.outline.source,
+        sections: doc.outline.sections.map((section) => ({
+          title: section.title,
+          level: section.level,
+          page: section.page,
+          length: section.end - section.start
+        }))
+      }
+    }
+  )
+
   createWindow()
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
@@ -582,6 +1136,13 @@ ${content}
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
+app.on('will-quit', () => {
+  stopMcpHttpServer()
+  stopMcpClients()
+  stopPDFFolderWatcher()
+  stopIngestionWorkers()
+})
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit()
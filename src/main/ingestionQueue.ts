@@ -0,0 +1,206 @@
+import { Worker } from 'worker_threads'
+import os from 'os'
+import path from 'path'
+
+import { isBuiltInDocumentFormat, loadDocument } from './documentLoaders'
+import createParserWorker from './documentParserWorker?nodeWorker'
+import { getLibraryConfig, scanLibraryRoot } from './libraryConfig'
+import { registerPDF } from './pdfDocumentStore'
+import { savePDFIndexStore } from './pdfIndexStore'
+import { IngestionEvent, IngestionJobStatus, LibraryRoot, LoadedDocument } from './types/pdfTypes'
+
+interface ParseTask {
+  filePath: string
+  buffer: Buffer
+  resolve: (document: LoadedDocument) => void
+  reject: (error: Error) => void
+}
+
+interface ParserWorker {
+  worker: Worker
+  task: ParseTask | null
+  idleTimer: NodeJS.Timeout | null
+}
+
+// 空いたワーカーを終了するまでの時間。ファイル間で毎回ワーカーを作り直さないよう少し待つ
+const WORKER_IDLE_MS = 5000
+
+// 解析待ちのファイルと、解析を行うワーカースレッド
+const pendingTasks: ParseTask[] = []
+const workers: ParserWorker[] = []
+
+// 実行中の取り込みジョブ
+const activeJobs = new Map<string, IngestionJobStatus>()
+let jobCounter = 0
+let eventListener: ((event: IngestionEvent) => void) | null = null
+
+// 設定が無い場合はメインスレッド用に1コアを残し、最大4並列とする
+function ingestionConcurrency(): number {
+  return getLibraryConfig().ingestionConcurrency ?? Math.max(1, Math.min(4, os.cpus().length - 1))
+}
+
+function finishTask(entry: ParserWorker, settle: (task: ParseTask) => void): void {
+  const task = entry.task
+  entry.task = null
+  if (task) settle(task)
+  dispatchTasks()
+}
+
+function removeWorker(entry: ParserWorker, error: Error): void {
+  const index = workers.indexOf(entry)
+  if (index === -1) return
+  workers.splice(index, 1)
+  if (entry.idleTimer) clearTimeout(entry.idleTimer)
+  finishTask(entry, (task) => task.reject(error))
+}
+
+function terminateWorker(entry: ParserWorker): void {
+  const index = workers.indexOf(entry)
+  if (index !== -1) workers.splice(index, 1)
+  if (entry.idleTimer) clearTimeout(entry.idleTimer)
+  entry.worker.removeAllListeners()
+  void entry.worker.terminate()
+}
+
+function spawnWorker(): ParserWorker {
+  const entry: ParserWorker = { worker: createParserWorker({}), task: null, idleTimer: null }
+
+  entry.worker
+    .on('message', (result: { document?: LoadedDocument; error?: string }) => {
+      finishTask(entry, (task) =>
+        result.document ? task.resolve(result.document) : task.reject(new Error(result.error))
+      )
+    })
+    // ワーカーが落ちた場合は処理中のファイルを失敗にし、残りは別のワーカーで続ける
+    .on('error', (error) => removeWorker(entry, error))
+    .on('exit', (code) => removeWorker(entry, new Error(`Parser worker exited with code ${code}`)))
+
+  workers.push(entry)
+  return entry
+}
+
+// 空いているワーカーに解析待ちのファイルを割り当てる。しばらく使われないワーカーは終了してメモリを解放する
+function dispatchTasks(): void {
+  const limit = ingestionConcurrency()
+
+  while (pendingTasks.length > 0) {
+    const entry =
+      workers.find((w) => !w.task) ?? (workers.length < limit ? spawnWorker() : undefined)
+    if (!entry) break
+
+    const task = pendingTasks.shift() as ParseTask
+    if (entry.idleTimer) clearTimeout(entry.idleTimer)
+    entry.idleTimer = null
+    entry.task = task
+    entry.worker.postMessage({ filePath: task.filePath, buffer: task.buffer })
+  }
+
+  // 同時実行数を減らした場合は余分な空きワーカーをすぐに終了する
+  const idle = workers.filter((w) => !w.task)
+  for (const entry of idle.slice(0, Math.max(0, workers.length - limit))) {
+    terminateWorker(entry)
+  }
+  for (const entry of workers) {
+    if (entry.task || entry.idleTimer) continue
+    entry.idleTimer = setTimeout(() => terminateWorker(entry), WORKER_IDLE_MS)
+    entry.idleTimer.unref()
+  }
+}
+
+// ワーカースレッドで文書を解析する (registerPDFのparseに渡す)。
+// registerDocumentLoaderで追加したローダーはワーカーから見えないため、組み込み以外の形式はメインスレッドで読む
+export function parseInWorker(filePath: string, buffer: Buffer): Promise<LoadedDocument> {
+  if (!isBuiltInDocumentFormat(filePath)) return loadDocument(filePath, buffer)
+  return new Promise((resolve, reject) => {
+    pendingTasks.push({ filePath, buffer, resolve, reject })
+    dispatchTasks()
+  })
+}
+
+// 取り込みの開始・ファイルごとの進捗・失敗・完了を受け取る関数を設定する
+export function setIngestionEventListener(
+  listener: ((event: IngestionEvent) => void) | null
+): void {
+  eventListener = listener
+}
+
+function emit(event: IngestionEvent): void {
+  eventListener?.(event)
+}
+
+export function getIngestionJobs(): IngestionJobStatus[] {
+  return [...activeJobs.values()]
+}
+
+async function ingestFile(job: IngestionJobStatus, filePath: string): Promise<void> {
+  const filename = path.basename(filePath)
+  try {
+    const { document, status } = await registerPDF(filePath, job.rootPath, parseInWorker)
+    job.processed++
+    if (status !== 'duplicate') job.registered++
+    emit({ type: 'progress', job, filePath, filename, docId: document.id, status })
+  } catch (error) {
+    console.error(`Error loading document ${filePath}:`, error)
+    const failure = { filePath, filename, error: (error as Error).message }
+    job.processed++
+    job.failures.push(failure)
+    emit({ type: 'error', job, failure })
+  }
+}
+
+// ファイル群を取り込むジョブを実行し、完了時の進捗を返す。
+// 同時に読み込むファイル数も解析の並列数に合わせ、大量のファイルを一度にメモリへ載せない
+export async function ingestFiles(
+  filePaths: string[],
+  rootPath: string
+): Promise<IngestionJobStatus> {
+  const job: IngestionJobStatus = {
+    jobId: `ingest_${++jobCounter}`,
+    rootPath: path.resolve(rootPath),
+    total: filePaths.length,
+    processed: 0,
+    registered: 0,
+    failures: [],
+    done: false
+  }
+  activeJobs.set(job.jobId, job)
+  emit({ type: 'started', job })
+
+  let next = 0
+  const runNext = async (): Promise<void> => {
+    while (next < filePaths.length) {
+      await ingestFile(job, filePaths[next++])
+    }
+  }
+
+  // 失敗はファイルごとに記録されるため、ジョブ自体は常に完了まで進む
+  await Promise.all(
+    Array.from({ length: Math.min(ingestionConcurrency(), filePaths.length) }, runNext)
+  )
+  savePDFIndexStore()
+
+  job.done = true
+  activeJobs.delete(job.jobId)
+  console.log(
+    `Registered ${job.registered} documents from ${job.rootPath} (${job.failures.length} failed)`
+  )
+  emit({ type: 'completed', job })
+  return job
+}
+
+// ライブラリルート配下の対象ファイルを再帰的に取り込む
+export async function ingestLibraryRoot(root: LibraryRoot): Promise<IngestionJobStatus> {
+  return ingestFiles(scanLibraryRoot(root), root.path)
+}
+
+// 終了時に解析中のワーカーを止める
+export async function stopIngestionWorkers(): Promise<void> {
+  const stopping = workers.splice(0).map((entry) => {
+    if (entry.idleTimer) clearTimeout(entry.idleTimer)
+    entry.worker.removeAllListeners()
+    entry.task?.reject(new Error('Ingestion stopped'))
+    return entry.worker.terminate()
+  })
+  for (const task of pendingTasks.splice(0)) task.reject(new Error('Ingestion stopped'))
+  await Promise.all(stopping)
+}
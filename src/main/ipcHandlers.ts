@@ -10,10 +10,10 @@ export interface ConversationResult {
 }
 
 export function setupIPCHandlers(): void {
-  // Initialize LLM Chain with API keys
-  ipcMain.handle('init-llm-chain', async (_event: IpcMainInvokeEvent, geminiApiKey: string, claudeApiKey: string) => {
+  // Initialize LLM Chain with API keys (optionally letting the models call external MCP tools)
+  ipcMain.handle('init-llm-chain', async (_event: IpcMainInvokeEvent, geminiApiKey: string, claudeApiKey: string, options: { useExternalTools?: boolean } = {}) => {
     try {
-      llmChain = new LLMChain({ geminiApiKey, claudeApiKey })
+      llmChain = new LLMChain({ geminiApiKey, claudeApiKey, useExternalTools: options.useExternalTools === true })
       return { success: true }
     } catch (error) {
       console.error('Failed to initialize LLM Chain:', error)
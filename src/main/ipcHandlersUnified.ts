@@ -25,10 +25,13 @@ export function setupUnifiedIPCHandlers(): void {
   ipcMain.handle('init-llm-unified', async (
     _event: IpcMainInvokeEvent, 
     type: 'claude-gemini' | 'gemini-only' | 'huggingface-gemini' | 'cohere-gemini',
-    keys: { geminiApiKey?: string; claudeApiKey?: string; huggingFaceApiKey?: string; cohereApiKey?: string }
+    keys: { geminiApiKey?: string; claudeApiKey?: string; huggingFaceApiKey?: string; cohereApiKey?: string },
+    options: { useExternalTools?: boolean } = {}
   ) => {
     try {
       chainType = type
+      // Gemini and Claude can call the tools of the connected external MCP servers
+      const useExternalTools = options.useExternalTools === true
       
       switch (type) {
         case 'claude-gemini':
@@ -37,7 +40,8 @@ export function setupUnifiedIPCHandlers(): void {
           }
           currentChain = new LLMChain({ 
             geminiApiKey: keys.geminiApiKey, 
-            claudeApiKey: keys.claudeApiKey 
+            claudeApiKey: keys.claudeApiKey,
+            useExternalTools
           })
           break
           
@@ -46,7 +50,8 @@ export function setupUnifiedIPCHandlers(): void {
             throw new Error('Gemini API key is required')
           }
           currentChain = new LLMChainGeminiOnly({ 
-            geminiApiKey: keys.geminiApiKey 
+            geminiApiKey: keys.geminiApiKey,
+            useExternalTools
           })
           break
           
@@ -56,7 +61,8 @@ export function setupUnifiedIPCHandlers(): void {
           }
           currentChain = new LLMChainWithHuggingFace({ 
             geminiApiKey: keys.geminiApiKey,
-            huggingFaceApiKey: keys.huggingFaceApiKey 
+            huggingFaceApiKey: keys.huggingFaceApiKey,
+            useExternalTools
           })
           break
           
@@ -66,7 +72,8 @@ export function setupUnifiedIPCHandlers(): void {
           }
           currentChain = new LLMChainWithCohere({ 
             geminiApiKey: keys.geminiApiKey,
-            cohereApiKey: keys.cohereApiKey 
+            cohereApiKey: keys.cohereApiKey,
+            useExternalTools
           })
           break
           
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import path from 'path'
+import picomatch from 'picomatch'
+
+import { supportedExtensions } from './documentLoaders'
+import { LibraryConfig, LibraryRoot } from './types/pdfTypes'
+
+const CONFIG_FILE_NAME = 'library-config.json'
+// 既定では読み込み可能なすべての形式を対象にする
+const DEFAULT_INCLUDE = supportedExtensions().map((extension) => `**/*${extension}`)
+
+let configFilePath: string | null = null
+let libraryConfig: LibraryConfig = { roots: [] }
+// ルートごとにコンパイル済みのマッチャーをキャッシュ
+let matcherCache = new Map<string, RootMatchers>()
+
+type RootMatchers = { include: (path: string) => boolean; exclude: (path: string) => boolean }
+
+function defaultConfig(): LibraryConfig {
+  return {
+    roots: [{ path: path.join(process.cwd(), 'data'), include: DEFAULT_INCLUDE, exclude: [] }]
+  }
+}
+
+function normalizeRoot(root: Partial<LibraryRoot> & { path: string }): LibraryRoot {
+  return {
+    path: path.resolve(root.path),
+    include: root.include && root.include.length > 0 ? root.include : DEFAULT_INCLUDE,
+    exclude: root.exclude ?? []
+  }
+}
+
+// 解析の同時実行数は1〜16の整数に丸める (不正な値は未指定としてCPU数から決める)
+function normalizeConcurrency(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined
+  return Math.min(16, Math.max(1, Math.floor(value)))
+}
+
+function normalizeConfig(config: Partial<LibraryConfig>): LibraryConfig {
+  return {
+    roots: (config.roots ?? []).map(normalizeRoot),
+    ingestionConcurrency: normalizeConcurrency(config.ingestionConcurrency)
+  }
+}
+
+// 設定外のフォルダを一時的に走査する場合のルート (既定のinclude、除外なし)
+export function createLibraryRoot(folderPath: string): LibraryRoot {
+  return normalizeRoot({ path: folderPath })
+}
+
+// ライブラリ設定を読み込む。設定ファイルが無い場合は ./data を唯一のルートとする
+export function initLibraryConfig(storeDir: string): LibraryConfig {
+  configFilePath = path.join(storeDir, CONFIG_FILE_NAME)
+  libraryConfig = defaultConfig()
+
+  if (fs.existsSync(configFilePath)) {
+    try {
+      libraryConfig = normalizeConfig(
+        JSON.parse(fs.readFileSync(configFilePath, 'utf-8')) as LibraryConfig
+      )
+    } catch (error) {
+      console.error('Error loading library config, using defaults:', error)
+    }
+  }
+
+  matcherCache = new Map()
+  console.log(`Library roots: ${libraryConfig.roots.map((r) => r.path).join(', ')}`)
+  return libraryConfig
+}
+
+export function getLibraryConfig(): LibraryConfig {
+  return libraryConfig
+}
+
+export function getLibraryRoots(): LibraryRoot[] {
+  return libraryConfig.roots
+}
+
+// ライブラリ設定を更新して保存する
+export function updateLibraryConfig(config: LibraryConfig): LibraryConfig {
+  libraryConfig = normalizeConfig(config)
+  matcherCache = new Map()
+
+  if (configFilePath) {
+    fs.mkdirSync(path.dirname(configFilePath), { recursive: true })
+    fs.writeFileSync(configFilePath, JSON.stringify(libraryConfig, null, 2))
+  }
+  return libraryConfig
+}
+
+function getMatchers(root: LibraryRoot): RootMatchers {
+  const key = JSON.stringify(root)
+  let matchers = matcherCache.get(key)
+  if (!matchers) {
+    const options = { dot: true, nocase: true }
+    matchers = {
+      include: picomatch(root.include, options),
+      exclude: root.exclude.length > 0 ? picomatch(root.exclude, options) : () => false
+    }
+    matcherCache.set(key, matchers)
+  }
+  return matchers
+}
+
+// ルートからの相対パス (区切りは "/") でinclude/excludeを判定する
+function toRelativePath(root: LibraryRoot, filePath: string): string | null {
+  const relative = path.relative(root.path, path.resolve(filePath))
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null
+  return relative.split(path.sep).join('/')
+}
+
+export function matchesLibraryRoot(root: LibraryRoot, filePath: string): boolean {
+  const relative = toRelativePath(root, filePath)
+  if (relative === null) return false
+  const { include, exclude } = getMatchers(root)
+  return include(relative) && !exclude(relative)
+}
+
+// ディレクトリ自体が除外パターンに一致するか (一致すれば配下を走査しない)
+export function isExcludedDirectory(root: LibraryRoot, dirPath: string): boolean {
+  const relative = toRelativePath(root, dirPath)
+  if (relative === null) return false
+  return getMatchers(root).exclude(relative)
+}
+
+// ファイルが属するルートを返す (ネストしている場合は最も深いルート)
+export function findRootForPath(filePath: string): LibraryRoot | undefined {
+  return libraryConfig.roots
+    .filter((root) => toRelativePath(root, filePath) !== null)
+    .sort((a, b) => b.path.length - a.path.length)[0]
+}
+
+// ルート配下を再帰的に走査し、include/excludeに一致するファイルを返す
+export function scanLibraryRoot(root: LibraryRoot): string[] {
+  const files: string[] = []
+  if (!fs.existsSync(root.path)) {
+    console.log(`Directory ${root.path} does not exist`)
+    return files
+  }
+
+  const walk = (dirPath: string): void => {
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true })
+    } catch (error) {
+      console.error(`Error reading directory ${dirPath}:`, error)
+      return
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name)
+      // シンボリックリンクのディレクトリはループを避けるため辿らない
+      if (entry.isDirectory()) {
+        if (!isExcludedDirectory(root, entryPath)) walk(entryPath)
+      } else if (entry.isFile() && matchesLibraryRoot(root, entryPath)) {
+        files.push(entryPath)
+      }
+    }
+  }
+
+  walk(root.path)
+  return files
+}
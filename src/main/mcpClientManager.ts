@@ -0,0 +1,338 @@
+import fs from 'fs'
+import path from 'path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import {
+  getDefaultEnvironment,
+  StdioClientTransport
+} from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+
+import {
+  McpClientServerConfig,
+  McpClientsFile,
+  McpClientStatus,
+  McpClientTool,
+  McpToolCallResponse
+} from './types/pdfTypes'
+
+const MCP_CLIENTS_FILE_NAME = 'mcp-clients.json'
+const MCP_CLIENTS_VERSION = 1
+const CLIENT_INFO = { name: 'mpc-app', version: '1.0.0' }
+// stdioサーバーの標準エラーをエラー表示用に残す長さ
+const MAX_STDERR_LENGTH = 2000
+
+interface McpClientConnection {
+  status: McpClientStatus
+  client: Client | null
+  stderr: string
+}
+
+let clientsFilePath: string | null = null
+let servers: McpClientServerConfig[] = []
+const connections = new Map<string, McpClientConnection>()
+let statusListener: ((status: McpClientStatus[]) => void) | null = null
+let serverCounter = 0
+
+function trimmedRecord(
+  record: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  const entries = Object.entries(record ?? {})
+    .map(([key, value]) => [key.trim(), String(value)] as const)
+    .filter(([key]) => key)
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+// 保存する前に設定を検証し、使わない項目を落とす
+function normalizeServerConfig(config: McpClientServerConfig): McpClientServerConfig {
+  const name = config.name?.trim()
+  if (!name) throw new Error('Server name is required')
+  const base = { id: config.id, name, enabled: config.enabled ?? true }
+
+  if (config.transport === 'stdio') {
+    const command = config.command?.trim()
+    if (!command) throw new Error('Command is required for a stdio server')
+    return {
+      ...base,
+      transport: 'stdio',
+      command,
+      args: (config.args ?? []).filter((arg) => arg !== ''),
+      env: trimmedRecord(config.env),
+      cwd: config.cwd?.trim() || undefined
+    }
+  }
+
+  if (config.transport === 'http') {
+    let url: URL
+    try {
+      url = new URL(config.url ?? '')
+    } catch {
+      throw new Error(`Invalid URL: ${config.url}`)
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:')
+      throw new Error(`Invalid URL: ${config.url}`)
+    return {
+      ...base,
+      transport: 'http',
+      url: url.toString(),
+      headers: trimmedRecord(config.headers)
+    }
+  }
+
+  throw new Error(`Unsupported transport: ${config.transport}`)
+}
+
+// 接続先の設定を読み込む (接続はconnectMcpClientsで行う)
+export function initMcpClients(storeDir: string): void {
+  clientsFilePath = path.join(storeDir, MCP_CLIENTS_FILE_NAME)
+  servers = []
+
+  if (!fs.existsSync(clientsFilePath)) return
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(clientsFilePath, 'utf-8')) as McpClientsFile
+    for (const server of raw.servers ?? []) {
+      try {
+        servers.push(normalizeServerConfig(server))
+      } catch (error) {
+        console.error(`Skipping invalid MCP server config ${server.name}:`, error)
+      }
+    }
+    console.log(`MCP client config loaded: ${servers.length} servers`)
+  } catch (error) {
+    console.error('Error loading MCP client config:', error)
+  }
+}
+
+function saveMcpClients(): void {
+  if (!clientsFilePath) return
+
+  const data: McpClientsFile = { version: MCP_CLIENTS_VERSION, servers }
+  fs.mkdirSync(path.dirname(clientsFilePath), { recursive: true })
+  // 環境変数やヘッダーに認証情報を含むことがあるため本人のみ読めるようにする
+  const tmpPath = `${clientsFilePath}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 })
+  fs.renameSync(tmpPath, clientsFilePath)
+}
+
+// 接続状態が変わるたびに全サーバーの状態を受け取る関数を設定する
+export function setMcpClientStatusListener(
+  listener: ((status: McpClientStatus[]) => void) | null
+): void {
+  statusListener = listener
+}
+
+export function getMcpClientStatus(): McpClientStatus[] {
+  return servers.map(
+    (config) => connections.get(config.id)?.status ?? { config, state: 'disconnected', tools: [] }
+  )
+}
+
+function emitStatus(): void {
+  statusListener?.(getMcpClientStatus())
+}
+
+function updateStatus(connection: McpClientConnection, update: Partial<McpClientStatus>): void {
+  connection.status = { ...connection.status, ...update }
+  emitStatus()
+}
+
+// fetchの失敗は原因 (接続拒否など) をcauseに持つため併せて表示する
+function connectionErrorMessage(error: unknown): string {
+  const message = (error as Error).message
+  const cause = (error as Error).cause
+  return cause instanceof Error && cause.message !== message
+    ? `${message} (${cause.message})`
+    : message
+}
+
+function createTransport(
+  config: McpClientServerConfig,
+  connection: McpClientConnection
+): Transport {
+  if (config.transport === 'http') {
+    return new StreamableHTTPClientTransport(new URL(config.url ?? ''), {
+      requestInit: { headers: config.headers }
+    })
+  }
+
+  const transport = new StdioClientTransport({
+    command: config.command ?? '',
+    args: config.args,
+    env: { ...getDefaultEnvironment(), ...config.env },
+    cwd: config.cwd,
+    stderr: 'pipe'
+  })
+  // 起動直後に終了した場合の原因がわかるよう標準エラーを残す
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    connection.stderr = (connection.stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH)
+  })
+  return transport
+}
+
+async function listAllTools(serverId: string, client: Client): Promise<McpClientTool[]> {
+  const tools: McpClientTool[] = []
+  let cursor: string | undefined
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined)
+    for (const tool of page.tools) {
+      tools.push({
+        serverId,
+        name: tool.name,
+        title: tool.title ?? tool.annotations?.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      })
+    }
+    cursor = page.nextCursor
+  } while (cursor)
+  return tools
+}
+
+async function refreshTools(connection: McpClientConnection): Promise<void> {
+  if (!connection.client) return
+  try {
+    updateStatus(connection, {
+      tools: await listAllTools(connection.status.config.id, connection.client)
+    })
+  } catch (error) {
+    console.error(`Error listing tools of MCP server ${connection.status.config.name}:`, error)
+  }
+}
+
+async function connectServer(config: McpClientServerConfig): Promise<void> {
+  await disconnectServer(config.id)
+
+  const connection: McpClientConnection = {
+    status: { config, state: 'connecting', tools: [] },
+    client: null,
+    stderr: ''
+  }
+  connections.set(config.id, connection)
+  emitStatus()
+
+  const client = new Client(CLIENT_INFO)
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () => refreshTools(connection))
+  // 切断したときに接続中だった場合だけエラーとして表示する (自分で閉じた場合は置き換え済み)
+  client.onclose = () => {
+    if (connections.get(config.id) !== connection || !connection.client) return
+    connection.client = null
+    updateStatus(connection, {
+      state: 'error',
+      tools: [],
+      error: connection.stderr.trim() || 'Connection closed by the server'
+    })
+  }
+
+  try {
+    await client.connect(createTransport(config, connection))
+    // 接続待ちの間に切断・削除・再接続された場合はこのクライアントを閉じて終わる
+    if (connections.get(config.id) !== connection) {
+      await client.close().catch(() => undefined)
+      return
+    }
+    connection.client = client
+    const serverInfo = client.getServerVersion()
+    updateStatus(connection, {
+      state: 'connected',
+      serverInfo: serverInfo ? { name: serverInfo.name, version: serverInfo.version } : undefined,
+      error: undefined
+    })
+    await refreshTools(connection)
+    console.log(`Connected to MCP server ${config.name}: ${connection.status.tools.length} tools`)
+  } catch (error) {
+    console.error(`Error connecting to MCP server ${config.name}:`, error)
+    if (connections.get(config.id) !== connection) {
+      await client.close().catch(() => undefined)
+      return
+    }
+    const message = connectionErrorMessage(error)
+    const stderr = connection.stderr.trim()
+    updateStatus(connection, { state: 'error', error: stderr ? `${message}\n${stderr}` : message })
+    await client.close().catch(() => undefined)
+  }
+}
+
+async function disconnectServer(id: string): Promise<void> {
+  const connection = connections.get(id)
+  if (!connection) return
+  connections.delete(id)
+  const client = connection.client
+  connection.client = null
+  await client?.close().catch((error) => console.error(`Error closing MCP client ${id}:`, error))
+}
+
+// 有効な接続先にまとめて接続する (失敗したサーバーはエラー状態で残る)
+export async function connectMcpClients(): Promise<void> {
+  await Promise.all(servers.filter((server) => server.enabled).map(connectServer))
+}
+
+export async function reconnectMcpClient(id: string): Promise<McpClientStatus[]> {
+  const config = servers.find((server) => server.id === id)
+  if (!config) throw new Error(`MCP server not found: ${id}`)
+  await connectServer(config)
+  return getMcpClientStatus()
+}
+
+// 接続先を追加・更新して保存し、有効なら接続し直す
+export async function saveMcpClientServer(
+  config: McpClientServerConfig
+): Promise<McpClientStatus[]> {
+  const id = config.id || `server_${Date.now().toString(36)}_${++serverCounter}`
+  const normalized = normalizeServerConfig({ ...config, id })
+  const index = servers.findIndex((server) => server.id === id)
+  servers =
+    index >= 0
+      ? servers.map((server) => (server.id === id ? normalized : server))
+      : [...servers, normalized]
+  saveMcpClients()
+
+  if (normalized.enabled) {
+    await connectServer(normalized)
+  } else {
+    await disconnectServer(id)
+    emitStatus()
+  }
+  return getMcpClientStatus()
+}
+
+export async function deleteMcpClientServer(id: string): Promise<McpClientStatus[]> {
+  await disconnectServer(id)
+  servers = servers.filter((server) => server.id !== id)
+  saveMcpClients()
+  emitStatus()
+  return getMcpClientStatus()
+}
+
+// 接続中のサーバーが提供するツール (LLMからの呼び出し用)
+export function listMcpClientTools(): McpClientTool[] {
+  return [...connections.values()].flatMap((connection) =>
+    connection.status.state === 'connected' ? connection.status.tools : []
+  )
+}
+
+export async function callMcpClientTool(
+  serverId: string,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<McpToolCallResponse> {
+  const connection = connections.get(serverId)
+  if (!connection?.client) {
+    return { success: false, error: `MCP server is not connected: ${serverId}` }
+  }
+  try {
+    const result = await connection.client.callTool({ name, arguments: args })
+    return {
+      success: true,
+      content: Array.isArray(result.content) ? result.content : [],
+      isError: result.isError === true
+    }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+}
+
+export async function stopMcpClients(): Promise<void> {
+  await Promise.all([...connections.keys()].map(disconnectServer))
+}
@@ -0,0 +1,315 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+
+import { McpHttpConfig, McpHttpStatus } from './types/pdfTypes'
+
+const CONFIG_FILE_NAME = 'mcp-http-config.json'
+const DEFAULT_PORT = 3845
+const HOST = '127.0.0.1'
+// 1リクエストで受け付けるJSON-RPCメッセージの最大サイズ
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+// 終了の通知をせずにいなくなったクライアントのセッションを閉じるまでの時間と、同時に保持するセッションの上限
+const SESSION_IDLE_MS = 30 * 60 * 1000
+const SESSION_SWEEP_MS = 60 * 1000
+const MAX_SESSIONS = 32
+
+// 公開するMCPサーバー。セッションごとにcreateで新しいインスタンスを作る
+export interface McpHttpEndpoint {
+  name: string
+  path: string
+  create: () => McpServer
+}
+
+interface McpHttpSession {
+  endpoint: McpHttpEndpoint
+  server: McpServer
+  transport: StreamableHTTPServerTransport
+  // 処理中のリクエスト (開いているSSEストリームを含む) の数と、最後にリクエストが終わった時刻
+  activeRequests: number
+  lastActiveAt: number
+}
+
+let configFilePath: string | null = null
+let config: McpHttpConfig = { enabled: false, port: DEFAULT_PORT, token: '' }
+let endpoints: McpHttpEndpoint[] = []
+let httpServer: http.Server | null = null
+let sweepTimer: NodeJS.Timeout | null = null
+let lastError: string | undefined
+const sessions = new Map<string, McpHttpSession>()
+
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+// ポートは1024〜65535の整数に限る (不正な値は既定のポート)
+function normalizePort(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1024 || value > 65535)
+    return DEFAULT_PORT
+  return value
+}
+
+function saveConfig(): void {
+  if (!configFilePath) return
+  fs.mkdirSync(path.dirname(configFilePath), { recursive: true })
+  fs.writeFileSync(configFilePath, JSON.stringify(config, null, 2), { mode: 0o600 })
+}
+
+// 設定を読み込み、トークンが無ければ生成して保存する
+export function initMcpHttpServer(
+  storeDir: string,
+  serverEndpoints: McpHttpEndpoint[]
+): McpHttpConfig {
+  configFilePath = path.join(storeDir, CONFIG_FILE_NAME)
+  endpoints = serverEndpoints
+
+  let raw: Partial<McpHttpConfig> = {}
+  if (fs.existsSync(configFilePath)) {
+    try {
+      raw = JSON.parse(fs.readFileSync(configFilePath, 'utf-8')) as Partial<McpHttpConfig>
+    } catch (error) {
+      console.error('Error loading MCP HTTP config, using defaults:', error)
+    }
+  }
+
+  config = {
+    // 外部からの接続を受け付けるため、ユーザーが有効にするまでは起動しない
+    enabled: raw.enabled ?? false,
+    port: normalizePort(raw.port),
+    token: typeof raw.token === 'string' && raw.token ? raw.token : generateToken()
+  }
+  if (config.token !== raw.token) saveConfig()
+  return config
+}
+
+export function getMcpHttpStatus(): McpHttpStatus {
+  return {
+    enabled: config.enabled,
+    running: httpServer !== null,
+    port: config.port,
+    token: config.token,
+    endpoints: endpoints.map((endpoint) => ({
+      name: endpoint.name,
+      url: `http://${HOST}:${config.port}${endpoint.path}`
+    })),
+    sessions: sessions.size,
+    error: lastError
+  }
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+}
+
+// Authorization: Bearer <token> をタイミングに依存しない比較で確認する
+function isAuthorized(req: http.IncomingMessage): boolean {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)
+  if (!match) return false
+  const given = Buffer.from(match[1])
+  const expected = Buffer.from(config.token)
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+// DNSリバインディング対策として、ループバックのホスト名以外からのリクエストは受け付けない
+function isAllowedHost(req: http.IncomingMessage): boolean {
+  return [`${HOST}:${config.port}`, `localhost:${config.port}`].includes(req.headers.host ?? '')
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large')
+    chunks.push(chunk as Buffer)
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+}
+
+function closeSession(id: string, session: McpHttpSession): void {
+  sessions.delete(id)
+  session.server
+    .close()
+    .catch((error) => console.error(`Error closing MCP HTTP session ${id}:`, error))
+}
+
+// リクエストの無いまま一定時間が過ぎたセッションを閉じる
+function closeIdleSessions(): void {
+  const now = Date.now()
+  for (const [id, session] of sessions) {
+    if (session.activeRequests === 0 && now - session.lastActiveAt > SESSION_IDLE_MS) {
+      closeSession(id, session)
+    }
+  }
+}
+
+// セッション数が上限に達している場合は最も長く使われていないセッションを閉じる。
+// すべてのセッションがリクエストを処理中の場合はfalse
+function makeRoomForSession(): boolean {
+  if (sessions.size < MAX_SESSIONS) return true
+  const idle = [...sessions]
+    .filter(([, session]) => session.activeRequests === 0)
+    .sort(([, a], [, b]) => a.lastActiveAt - b.lastActiveAt)
+  if (idle.length === 0) return false
+  closeSession(...idle[0])
+  return true
+}
+
+function trackRequest(session: McpHttpSession, res: http.ServerResponse): void {
+  session.activeRequests++
+  res.once('close', () => {
+    session.activeRequests--
+    session.lastActiveAt = Date.now()
+  })
+}
+
+// 初期化リクエストでセッションを作り、以降はmcp-session-idヘッダーでセッションのトランスポートに渡す
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!isAllowedHost(req)) {
+    sendJsonRpcError(res, 403, -32000, 'Forbidden host')
+    return
+  }
+  if (!isAuthorized(req)) {
+    res.setHeader('WWW-Authenticate', 'Bearer')
+    sendJsonRpcError(res, 401, -32001, 'Unauthorized')
+    return
+  }
+
+  const { pathname } = new URL(req.url ?? '/', `http://${HOST}`)
+  const endpoint = endpoints.find((e) => e.path === pathname)
+  if (!endpoint) {
+    sendJsonRpcError(res, 404, -32000, 'Not found')
+    return
+  }
+
+  let body: unknown
+  if (req.method === 'POST') {
+    try {
+      body = await readJsonBody(req)
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${(error as Error).message}`)
+      return
+    }
+  }
+
+  const sessionId = req.headers['mcp-session-id']
+  if (typeof sessionId === 'string') {
+    const session = sessions.get(sessionId)
+    if (!session || session.endpoint !== endpoint) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found')
+      return
+    }
+    trackRequest(session, res)
+    await session.transport.handleRequest(req, res, body)
+    return
+  }
+
+  const initializing = Array.isArray(body)
+    ? body.some(isInitializeRequest)
+    : isInitializeRequest(body)
+  if (req.method !== 'POST' || !initializing) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided')
+    return
+  }
+  if (!makeRoomForSession()) {
+    sendJsonRpcError(res, 503, -32000, 'Too many active sessions')
+    return
+  }
+
+  const server = endpoint.create()
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => crypto.randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { endpoint, server, transport, activeRequests: 0, lastActiveAt: Date.now() })
+    }
+  })
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId)
+  }
+  await server.connect(transport)
+  await transport.handleRequest(req, res, body)
+}
+
+// 設定されたポートでlocalhostのみにバインドして待ち受ける
+export async function startMcpHttpServer(): Promise<McpHttpStatus> {
+  if (httpServer) return getMcpHttpStatus()
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('Error handling MCP HTTP request:', error)
+      if (!res.headersSent) sendJsonRpcError(res, 500, -32603, 'Internal server error')
+    })
+  })
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(config.port, HOST, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    httpServer = server
+    sweepTimer = setInterval(closeIdleSessions, SESSION_SWEEP_MS)
+    sweepTimer.unref()
+    lastError = undefined
+    console.log(`MCP HTTP server listening on http://${HOST}:${config.port}`)
+  } catch (error) {
+    lastError = (error as Error).message
+    console.error('Error starting MCP HTTP server:', error)
+  }
+  return getMcpHttpStatus()
+}
+
+export async function stopMcpHttpServer(): Promise<void> {
+  if (sweepTimer) clearInterval(sweepTimer)
+  sweepTimer = null
+  // McpServerを閉じると接続しているトランスポートも閉じる
+  const closing = [...sessions.values()].map((session) => session.server.close())
+  sessions.clear()
+  await Promise.all(closing)
+
+  if (!httpServer) return
+  const server = httpServer
+  httpServer = null
+  // 接続中のSSEストリームが残っていても閉じられるよう既存の接続も切断する
+  server.closeAllConnections()
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+  console.log('MCP HTTP server stopped')
+}
+
+// 有効・無効とポートを変更し、必要に応じて再起動する
+export async function updateMcpHttpConfig(update: {
+  enabled?: boolean
+  port?: number
+}): Promise<McpHttpStatus> {
+  const portChanged = update.port !== undefined && normalizePort(update.port) !== config.port
+  config = {
+    ...config,
+    enabled: update.enabled ?? config.enabled,
+    port: update.port !== undefined ? normalizePort(update.port) : config.port
+  }
+  saveConfig()
+
+  if (!config.enabled || portChanged) await stopMcpHttpServer()
+  if (config.enabled) return startMcpHttpServer()
+  lastError = undefined
+  return getMcpHttpStatus()
+}
+
+// トークンを作り直す。以前のトークンを使うクライアントは次のリクエストから拒否される
+export function regenerateMcpHttpToken(): McpHttpStatus {
+  config = { ...config, token: generateToken() }
+  saveConfig()
+  return getMcpHttpStatus()
+}
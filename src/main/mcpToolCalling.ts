@@ -0,0 +1,319 @@
+import Anthropic from '@anthropic-ai/sdk'
+import {
+  Content,
+  FunctionCallingMode,
+  FunctionDeclaration,
+  FunctionDeclarationSchema,
+  FunctionResponsePart,
+  GoogleGenerativeAI
+} from '@google/generative-ai'
+
+import { callMcpClientTool, getMcpClientStatus, listMcpClientTools } from './mcpClientManager'
+import { McpToolCallResponse, ToolCallingProvider, ToolCallStep } from './types/pdfTypes'
+
+const CLAUDE_MAX_TOKENS = 2048
+// LLMチェーンの1回の問い合わせでツールを呼び出すモデルの応答回数の上限
+const EXTERNAL_TOOLS_MAX_STEPS = 8
+// 1回のツール結果としてモデルに渡す最大文字数
+const MAX_TOOL_RESULT_LENGTH = 12000
+const RESULT_PREVIEW_LENGTH = 500
+
+// LLMチェーンの問い合わせで外部MCPサーバーのツールを渡すときの指示
+const EXTERNAL_TOOLS_SYSTEM_PROMPT = `You can call tools provided by the user's MCP servers.
+- Call a tool when it helps to answer the prompt, otherwise answer directly.
+- Mention the tools whose results you used.
+- Answer in the language of the prompt.`
+
+const STEP_LIMIT_MESSAGE =
+  'The tool call limit has been reached. Answer now using only the information gathered so far, and mention anything you could not verify.'
+
+export interface CallableTool {
+  // モデルに見せる名前 (外部サーバーのツールはサーバー名を前に付ける)
+  name: string
+  description: string
+  parameters: JsonSchema
+  call: (args: Record<string, unknown>) => Promise<McpToolCallResponse>
+}
+
+export interface JsonSchema {
+  type?: string
+  description?: string
+  enum?: unknown[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+}
+
+interface ToolCallRequest {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+interface ToolCallResult extends ToolCallRequest {
+  text: string
+  isError: boolean
+}
+
+// 1回のモデル呼び出しの結果。toolCallsが空なら回答が確定した
+interface ModelTurn {
+  text: string
+  toolCalls: ToolCallRequest[]
+}
+
+// モデルごとの会話の持ち方の違いを吸収する
+export interface ToolCallingModel {
+  next: (toolResults: ToolCallResult[], final: boolean) => Promise<ModelTurn>
+}
+
+// GeminiとClaudeの両方が受け付ける形にJSON Schemaを単純化する
+// (anyOfは先頭の候補を使い、$refや数値の範囲などは落とす)
+export function simplifySchema(schema: Record<string, unknown>): JsonSchema {
+  const variants = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined
+  if (variants?.length) {
+    return { ...simplifySchema(variants[0]), description: schema.description as string | undefined }
+  }
+
+  const result: JsonSchema = { type: typeof schema.type === 'string' ? schema.type : 'string' }
+  if (typeof schema.description === 'string') result.description = schema.description
+  if (Array.isArray(schema.enum)) result.enum = schema.enum
+  else if (schema.const !== undefined) result.enum = [schema.const]
+  if (result.type === 'array') {
+    result.items = simplifySchema((schema.items as Record<string, unknown>) ?? { type: 'string' })
+  }
+  if (result.type === 'object' && schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, Record<string, unknown>>).map(
+        ([name, property]) => [name, simplifySchema(property)]
+      )
+    )
+    if (Array.isArray(schema.required)) result.required = schema.required as string[]
+  }
+  return result
+}
+
+function toolResultText(response: McpToolCallResponse): string {
+  if (!response.success) return `Error: ${response.error}`
+  return (response.content ?? [])
+    .map((part) => {
+      const item = part as { type?: string; text?: string }
+      return item.type === 'text' ? (item.text ?? '') : JSON.stringify(part)
+    })
+    .join('\n')
+}
+
+function truncateToolResult(text: string): string {
+  if (text.length <= MAX_TOOL_RESULT_LENGTH) return text
+  return `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}\n...(truncated: ${text.length} characters in total. Request a smaller range or page.)`
+}
+
+// 外部MCPサーバーのツール。名前が重ならないようサーバー名を前に付ける
+export function externalTools(usedNames: Set<string>): CallableTool[] {
+  const serverNames = new Map(
+    getMcpClientStatus().map((status) => [status.config.id, status.config.name])
+  )
+  const tools: CallableTool[] = []
+  for (const tool of listMcpClientTools()) {
+    const prefix = (serverNames.get(tool.serverId) ?? tool.serverId).replace(
+      /[^A-Za-z0-9_-]+/g,
+      '_'
+    )
+    const name = `${prefix}__${tool.name}`.replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 64)
+    if (usedNames.has(name)) continue
+    usedNames.add(name)
+    tools.push({
+      name,
+      description: `[${serverNames.get(tool.serverId) ?? tool.serverId}] ${tool.description ?? tool.title ?? tool.name}`,
+      parameters: simplifySchema(tool.inputSchema),
+      call: (args) => callMcpClientTool(tool.serverId, tool.name, args)
+    })
+  }
+  return tools
+}
+
+export function createGeminiModel(
+  apiKey: string,
+  modelName: string,
+  systemPrompt: string,
+  question: string,
+  tools: CallableTool[]
+): ToolCallingModel {
+  const functionDeclarations: FunctionDeclaration[] = tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    // 引数の無いツールにparametersを付けるとGeminiが受け付けない
+    parameters:
+      tool.parameters.properties && Object.keys(tool.parameters.properties).length > 0
+        ? (tool.parameters as FunctionDeclarationSchema)
+        : undefined
+  }))
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: modelName,
+    systemInstruction: systemPrompt,
+    tools: [{ functionDeclarations }]
+  })
+  const contents: Content[] = [{ role: 'user', parts: [{ text: question }] }]
+
+  return {
+    next: async (toolResults, final) => {
+      if (toolResults.length > 0) {
+        contents.push({
+          role: 'function',
+          parts: toolResults.map(
+            (result): FunctionResponsePart => ({
+              functionResponse: {
+                name: result.name,
+                response: { content: result.text, isError: result.isError }
+              }
+            })
+          )
+        })
+      }
+      if (final) contents.push({ role: 'user', parts: [{ text: STEP_LIMIT_MESSAGE }] })
+
+      const result = await model.generateContent({
+        contents,
+        toolConfig: {
+          functionCallingConfig: {
+            mode: final ? FunctionCallingMode.NONE : FunctionCallingMode.AUTO
+          }
+        }
+      })
+      const content = result.response.candidates?.[0]?.content
+      if (content) contents.push(content)
+      const calls = result.response.functionCalls() ?? []
+      return {
+        text: calls.length > 0 ? '' : result.response.text(),
+        toolCalls: calls.map((call, index) => ({
+          id: `${contents.length}_${index}`,
+          name: call.name,
+          args: (call.args ?? {}) as Record<string, unknown>
+        }))
+      }
+    }
+  }
+}
+
+export function createClaudeModel(
+  apiKey: string,
+  modelName: string,
+  systemPrompt: string,
+  question: string,
+  tools: CallableTool[]
+): ToolCallingModel {
+  const claude = new Anthropic({ apiKey })
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: question }]
+  const claudeTools: Anthropic.Tool[] = tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: { ...tool.parameters, type: 'object' }
+  }))
+
+  return {
+    next: async (toolResults, final) => {
+      if (toolResults.length > 0) {
+        const content: Anthropic.ContentBlockParam[] = toolResults.map((result) => ({
+          type: 'tool_result',
+          tool_use_id: result.id,
+          content: result.text,
+          is_error: result.isError
+        }))
+        if (final) content.push({ type: 'text', text: STEP_LIMIT_MESSAGE })
+        messages.push({ role: 'user', content })
+      }
+
+      const response = await claude.messages.create({
+        model: modelName,
+        max_tokens: CLAUDE_MAX_TOKENS,
+        system: systemPrompt,
+        tools: claudeTools,
+        tool_choice: final ? { type: 'none' } : { type: 'auto' },
+        messages
+      })
+      messages.push({ role: 'assistant', content: response.content })
+
+      const toolCalls: ToolCallRequest[] = []
+      const texts: string[] = []
+      for (const block of response.content) {
+        if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            name: block.name,
+            args: block.input as Record<string, unknown>
+          })
+        } else if (block.type === 'text') {
+          texts.push(block.text)
+        }
+      }
+      return { text: texts.join('\n'), toolCalls }
+    }
+  }
+}
+
+async function runTool(tools: CallableTool[], call: ToolCallRequest): Promise<ToolCallResult> {
+  const tool = tools.find((t) => t.name === call.name)
+  const response: McpToolCallResponse = tool
+    ? await tool.call(call.args)
+    : { success: false, error: `Unknown tool: ${call.name}` }
+  return {
+    ...call,
+    text: truncateToolResult(toolResultText(response)),
+    isError: !response.success || response.isError === true
+  }
+}
+
+// モデルがツールを呼ばずに回答するか、上限に達するまでツールの呼び出しと結果の受け渡しを繰り返す
+export async function runToolCallingLoop(
+  model: ToolCallingModel,
+  tools: CallableTool[],
+  maxSteps: number,
+  onStep: (step: ToolCallStep) => void
+): Promise<{ answer: string; reachedStepLimit: boolean }> {
+  let toolResults: ToolCallResult[] = []
+  for (let step = 1; ; step++) {
+    const final = step > maxSteps
+    const turn = await model.next(toolResults, final)
+    if (turn.toolCalls.length === 0 || final) {
+      return { answer: turn.text, reachedStepLimit: final }
+    }
+
+    toolResults = []
+    for (const call of turn.toolCalls) {
+      const startedAt = Date.now()
+      const result = await runTool(tools, call)
+      toolResults.push(result)
+      onStep({
+        step,
+        tool: call.name,
+        args: call.args,
+        resultPreview: result.text.slice(0, RESULT_PREVIEW_LENGTH),
+        resultLength: result.text.length,
+        isError: result.isError,
+        durationMs: Date.now() - startedAt
+      })
+    }
+  }
+}
+
+// LLMチェーンの問い合わせを、接続中の外部MCPサーバーのツールを呼べる状態で行う
+// 使えるツールが無い場合はnullを返す (呼び出し側で通常の問い合わせを行う)
+export async function askWithExternalTools(
+  provider: ToolCallingProvider,
+  apiKey: string,
+  modelName: string,
+  prompt: string
+): Promise<string | null> {
+  const tools = externalTools(new Set())
+  if (tools.length === 0) return null
+
+  const model =
+    provider === 'gemini'
+      ? createGeminiModel(apiKey, modelName, EXTERNAL_TOOLS_SYSTEM_PROMPT, prompt, tools)
+      : createClaudeModel(apiKey, modelName, EXTERNAL_TOOLS_SYSTEM_PROMPT, prompt, tools)
+  const { answer } = await runToolCallingLoop(model, tools, EXTERNAL_TOOLS_MAX_STEPS, (step) =>
+    console.log(
+      `MCP tool ${step.tool} called (${step.durationMs} ms${step.isError ? ', error' : ''})`
+    )
+  )
+  return answer
+}
@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import Anthropic from '@anthropic-ai/sdk'
 
+import { askWithExternalTools } from '../mcpToolCalling'
+
 export interface ConversationMessage {
   role: 'user' | 'assistant'
   content: string
@@ -11,20 +13,37 @@ export interface ConversationMessage {
 export interface LLMConfig {
   geminiApiKey: string
   claudeApiKey: string
+  // Let Gemini and Claude call the tools of the connected external MCP servers
+  useExternalTools?: boolean
 }
 
 export class LLMChain {
   private gemini: GoogleGenerativeAI
   private claude: Anthropic
   private conversationHistory: ConversationMessage[] = []
+  private geminiApiKey: string
+  private claudeApiKey: string
+  private useExternalTools: boolean
 
   constructor(config: LLMConfig) {
     this.gemini = new GoogleGenerativeAI(config.geminiApiKey)
     this.claude = new Anthropic({ apiKey: config.claudeApiKey })
+    this.geminiApiKey = config.geminiApiKey
+    this.claudeApiKey = config.claudeApiKey
+    this.useExternalTools = config.useExternalTools ?? false
   }
 
   private async askGemini(prompt: string): Promise<string> {
     try {
+      if (this.useExternalTools) {
+        const answer = await askWithExternalTools(
+          'gemini',
+          this.geminiApiKey,
+          'gemini-1.5-flash',
+          prompt
+        )
+        if (answer !== null) return answer
+      }
       const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' })
       const result = await model.generateContent(prompt)
       const response = result.response
@@ -37,6 +56,15 @@ export class LLMChain {
 
   private async askClaude(prompt: string): Promise<string> {
     try {
+      if (this.useExternalTools) {
+        const answer = await askWithExternalTools(
+          'claude',
+          this.claudeApiKey,
+          'claude-3-haiku-20240307',
+          prompt
+        )
+        if (answer !== null) return answer
+      }
       const response = await this.claude.messages.create({
         model: 'claude-3-haiku-20240307',
         max_tokens: 1024,
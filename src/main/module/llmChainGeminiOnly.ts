@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 
+import { askWithExternalTools } from '../mcpToolCalling'
+
 export interface ConversationMessage {
   role: 'user' | 'assistant'
   content: string
@@ -9,18 +11,28 @@ export interface ConversationMessage {
 
 export interface LLMConfig {
   geminiApiKey: string
+  // Let Gemini call the tools of the connected external MCP servers
+  useExternalTools?: boolean
 }
 
 export class LLMChainGeminiOnly {
   private gemini: GoogleGenerativeAI
   private conversationHistory: ConversationMessage[] = []
+  private geminiApiKey: string
+  private useExternalTools: boolean
 
   constructor(config: LLMConfig) {
     this.gemini = new GoogleGenerativeAI(config.geminiApiKey)
+    this.geminiApiKey = config.geminiApiKey
+    this.useExternalTools = config.useExternalTools ?? false
   }
 
   private async askGemini(prompt: string, modelVersion: string = 'gemini-1.5-flash'): Promise<string> {
     try {
+      if (this.useExternalTools) {
+        const answer = await askWithExternalTools('gemini', this.geminiApiKey, modelVersion, prompt)
+        if (answer !== null) return answer
+      }
       const model = this.gemini.getGenerativeModel({ model: modelVersion })
       const result = await model.generateContent(prompt)
       const response = result.response
@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { CohereClient } from 'cohere-ai'
 
+import { askWithExternalTools } from '../mcpToolCalling'
+
 export interface ConversationMessage {
   role: 'user' | 'assistant'
   content: string
@@ -11,22 +13,37 @@ export interface ConversationMessage {
 export interface LLMConfig {
   geminiApiKey: string
   cohereApiKey: string
+  // Let Gemini call the tools of the connected external MCP servers
+  useExternalTools?: boolean
 }
 
 export class LLMChainWithCohere {
   private gemini: GoogleGenerativeAI
   private cohere: CohereClient
   private conversationHistory: ConversationMessage[] = []
+  private geminiApiKey: string
+  private useExternalTools: boolean
 
   constructor(config: LLMConfig) {
     this.gemini = new GoogleGenerativeAI(config.geminiApiKey)
     this.cohere = new CohereClient({
       token: config.cohereApiKey,
     })
+    this.geminiApiKey = config.geminiApiKey
+    this.useExternalTools = config.useExternalTools ?? false
   }
 
   private async askGemini(prompt: string): Promise<string> {
     try {
+      if (this.useExternalTools) {
+        const answer = await askWithExternalTools(
+          'gemini',
+          this.geminiApiKey,
+          'gemini-1.5-flash',
+          prompt
+        )
+        if (answer !== null) return answer
+      }
       const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' })
       const result = await model.generateContent(prompt)
       const response = result.response
@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { HfInference } from '@huggingface/inference'
 
+import { askWithExternalTools } from '../mcpToolCalling'
+
 export interface ConversationMessage {
   role: 'user' | 'assistant'
   content: string
@@ -11,20 +13,35 @@ export interface ConversationMessage {
 export interface LLMConfig {
   geminiApiKey: string
   huggingFaceApiKey: string
+  // Let Gemini call the tools of the connected external MCP servers
+  useExternalTools?: boolean
 }
 
 export class LLMChainWithHuggingFace {
   private gemini: GoogleGenerativeAI
   private huggingface: HfInference
   private conversationHistory: ConversationMessage[] = []
+  private geminiApiKey: string
+  private useExternalTools: boolean
 
   constructor(config: LLMConfig) {
     this.gemini = new GoogleGenerativeAI(config.geminiApiKey)
     this.huggingface = new HfInference(config.huggingFaceApiKey)
+    this.geminiApiKey = config.geminiApiKey
+    this.useExternalTools = config.useExternalTools ?? false
   }
 
   private async askGemini(prompt: string): Promise<string> {
     try {
+      if (this.useExternalTools) {
+        const answer = await askWithExternalTools(
+          'gemini',
+          this.geminiApiKey,
+          'gemini-1.5-flash',
+          prompt
+        )
+        if (answer !== null) return answer
+      }
       const model = this.gemini.getGenerativeModel({ model: 'gemini-1.5-flash' })
       const result = await model.generateContent(prompt)
       const response = result.response
@@ -0,0 +1,297 @@
+import path from 'path'
+
+import { moveDocumentAnnotations } from './documentAnnotations'
+import { buildOutline } from './documentOutline'
+import { matchesLibraryRoot } from './libraryConfig'
+import {
+  emptySearchPage,
+  indexDocument,
+  matchDocumentIds,
+  removeFromSearchIndex,
+  ResolvedSearchOptions,
+  searchIndex,
+  searchText
+} from './pdfSearchIndex'
+import { compareDocuments, toDocumentInfo } from './pdfMetadata'
+import { loadPDFWithIndex, removeIndexedPDF } from './pdfIndexStore'
+import { decodeSearchCursor, encodeSearchCursor } from './searchCursor'
+import { toSearchQuery } from './searchQueryParser'
+import {
+  DocumentParser,
+  DocumentStoreChange,
+  LibraryRoot,
+  PDFDocument,
+  PDFRegistrationResult,
+  PDFSummary,
+  RankedSearchPage,
+  SearchOptions,
+  SearchQueryNode,
+  SearchSort
+} from './types/pdfTypes'
+
+// 登録済みPDFの唯一の保存先。MCPサーバーとIPCハンドラーはすべてここを参照する
+const pdfDocuments: { [id: string]: PDFDocument } = {}
+const pdfSummaries: { [id: string]: PDFSummary } = {}
+const changeListeners = new Set<(change: DocumentStoreChange) => void>()
+
+// 文書の追加・更新・削除を受け取る関数を登録し、登録解除する関数を返す
+export function onDocumentStoreChange(listener: (change: DocumentStoreChange) => void): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
+}
+
+function notifyChange(change: DocumentStoreChange): void {
+  for (const listener of changeListeners) {
+    try {
+      listener(change)
+    } catch (error) {
+      console.error('Error in document store listener:', error)
+    }
+  }
+}
+
+export function addDocument(document: PDFDocument): void {
+  const exists = document.id in pdfDocuments
+  pdfDocuments[document.id] = document
+  indexDocument(document)
+  notifyChange({ type: exists ? 'updated' : 'added', docId: document.id })
+}
+
+export function getDocument(docId: string): PDFDocument | undefined {
+  return pdfDocuments[docId]
+}
+
+export function listDocuments(): PDFDocument[] {
+  return Object.values(pdfDocuments)
+}
+
+export function getDocumentCount(): number {
+  return Object.keys(pdfDocuments).length
+}
+
+// ドキュメントと要約を削除する
+export function removeDocument(docId: string): PDFDocument | undefined {
+  const doc = pdfDocuments[docId]
+  if (!doc) return undefined
+
+  delete pdfDocuments[docId]
+  delete pdfSummaries[docId]
+  removeFromSearchIndex(docId)
+  notifyChange({ type: 'removed', docId })
+  return doc
+}
+
+// 検索文字列または構造化クエリで検索し、BM25順の1ページ分を返す
+export function searchDocuments(
+  query: string | SearchQueryNode,
+  options: SearchOptions = {}
+): RankedSearchPage {
+  const resolved: ResolvedSearchOptions = {
+    ...options,
+    maxResults: options.maxResults ?? 10,
+    maxMatchesPerDocument: options.maxMatchesPerDocument ?? 3,
+    contextLength: options.contextLength ?? 150
+  }
+  return withCursors(runSearch(query, resolved), query, resolved)
+}
+
+function runSearch(
+  query: string | SearchQueryNode,
+  options: ResolvedSearchOptions
+): RankedSearchPage {
+  const { mode = 'query' } = options
+  // literal/regexは検索構文を解釈せず、入力文字列をそのままパターンとして使う
+  if (mode === 'literal' || mode === 'regex') {
+    if (typeof query !== 'string') {
+      throw new Error(`Structured queries are not supported in ${mode} mode`)
+    }
+    return query ? searchText(query, mode, getDocument, options) : emptySearchPage(options.offset)
+  }
+
+  const parsed = toSearchQuery(query)
+  if (!parsed) return emptySearchPage(options.offset)
+  return searchIndex(parsed, getDocument, options)
+}
+
+// 次の文書ページと、各文書の続きの一致を取得するカーソルを付ける
+function withCursors(
+  page: RankedSearchPage,
+  query: string | SearchQueryNode,
+  options: ResolvedSearchOptions
+): RankedSearchPage {
+  const nextOffset = page.offset + options.maxResults
+  const hasNextPage = !options.docId && nextOffset < page.totalHits
+
+  return {
+    ...page,
+    nextCursor: hasNextPage ? encodeSearchCursor(query, { ...options, offset: nextOffset }) : null,
+    hits: page.hits.map((hit) => {
+      const nextMatchOffset = hit.matchOffset + options.maxMatchesPerDocument
+      return {
+        ...hit,
+        nextMatchesCursor:
+          nextMatchOffset < hit.totalMatches
+            ? encodeSearchCursor(query, {
+                ...options,
+                offset: 0,
+                docId: hit.document.id,
+                matchOffset: nextMatchOffset
+              })
+            : null
+      }
+    })
+  }
+}
+
+// 絞り込み条件 (検索構文または構造化クエリ) に該当する文書を並べ替えて返す
+export function filterDocuments(
+  filter?: string | SearchQueryNode,
+  sort?: SearchSort
+): PDFDocument[] {
+  const parsed = filter === undefined ? null : toSearchQuery(filter)
+  const docs = parsed
+    ? [...matchDocumentIds(parsed, getDocument)].flatMap((docId) => getDocument(docId) ?? [])
+    : listDocuments()
+  return sort ? [...docs].sort((a, b) => compareDocuments(a, b, sort)) : docs
+}
+
+// カーソルに保存された条件で検索を続ける
+export function continueSearch(cursor: string): RankedSearchPage {
+  const { query, options } = decodeSearchCursor(cursor)
+  return searchDocuments(query, options)
+}
+
+export function setSummary(docId: string, summary: PDFSummary): void {
+  pdfSummaries[docId] = summary
+}
+
+export function getSummary(docId: string): PDFSummary | undefined {
+  return pdfSummaries[docId]
+}
+
+// ライブラリ設定の変更で対象外になったドキュメントを登録解除する
+export function removeDocumentsOutsideRoots(roots: LibraryRoot[]): PDFDocument[] {
+  const removed: PDFDocument[] = []
+  for (const doc of listDocuments()) {
+    const paths = [doc.filePath, ...(doc.duplicatePaths ?? [])]
+    for (const filePath of paths) {
+      if (roots.some((root) => matchesLibraryRoot(root, filePath))) continue
+      // 登録解除した文書の残りのパスは処理しない (二重の削除・通知を防ぐ)
+      if (detachPath(doc, filePath)) {
+        removed.push(doc)
+        break
+      }
+    }
+  }
+  return removed
+}
+
+// 内容のハッシュからIDを作るため、同じファイルは再起動や再読み込み後も同じIDになる
+export function toDocId(hash: string): string {
+  return `pdf_${hash.slice(0, 16)}`
+}
+
+function isSamePath(a: string, b: string): boolean {
+  return path.resolve(a) === path.resolve(b)
+}
+
+// 文書 (PDF・Markdown・テキスト・HTML・DOCX) を解析して登録する。登録済みの場合はその場で更新し、同一内容の別パスは重複として記録
+// parseを渡すと解析をワーカースレッドなどに任せられる (省略時はメインスレッドで解析)
+export async function registerPDF(
+  filePath: string,
+  rootPath: string = path.dirname(filePath),
+  parse?: DocumentParser
+): Promise<PDFRegistrationResult> {
+  const parsed = await loadPDFWithIndex(filePath, parse)
+  const docId = toDocId(parsed.hash)
+  const filename = path.basename(filePath)
+
+  // 同じパスの内容が変わった場合は古いIDから切り離し、タグ・コレクション・メモを新しいIDへ引き継ぐ
+  const previous = getDocumentByPath(filePath)
+  if (previous && previous.id !== docId) {
+    const removed = detachPath(previous, filePath)
+    moveDocumentAnnotations(previous.id, docId, !removed)
+  }
+
+  const sameContent = getDocument(docId)
+  if (sameContent && !isSamePath(sameContent.filePath, filePath)) {
+    const duplicatePaths = sameContent.duplicatePaths ?? []
+    if (!duplicatePaths.some((p) => isSamePath(p, filePath))) {
+      sameContent.duplicatePaths = [...duplicatePaths, filePath]
+      notifyChange({ type: 'updated', docId })
+    }
+    console.warn(`PDF duplicate: ${filePath} has the same content as ${sameContent.filePath}`)
+    return { document: sameContent, status: 'duplicate', duplicateOf: sameContent.filePath }
+  }
+
+  const document: PDFDocument = {
+    id: docId,
+    filePath,
+    filename,
+    format: parsed.format ?? 'pdf',
+    rootPath: path.resolve(rootPath),
+    content: parsed.text,
+    pageOffsets: parsed.pageOffsets,
+    duplicatePaths: sameContent?.duplicatePaths,
+    outline: buildOutline(parsed.text, parsed.pageOffsets, parsed.outline),
+    metadata: {
+      pages: parsed.numpages || 0,
+      size: parsed.size,
+      createdAt: sameContent?.metadata.createdAt ?? previous?.metadata.createdAt ?? new Date(),
+      info: toDocumentInfo(parsed.info, parsed.xmp)
+    }
+  }
+
+  addDocument(document)
+
+  const status = sameContent || previous ? 'updated' : 'registered'
+  console.log(`PDF ${status}: ${filename} (${parsed.text.length} characters)`)
+  return { document, status }
+}
+
+// ドキュメントからパスを外す。主パスを外す場合は重複パスを昇格させ、無ければ登録解除
+function detachPath(doc: PDFDocument, filePath: string): boolean {
+  const duplicatePaths = doc.duplicatePaths ?? []
+
+  if (!isSamePath(doc.filePath, filePath)) {
+    doc.duplicatePaths = duplicatePaths.filter((p) => !isSamePath(p, filePath))
+    notifyChange({ type: 'updated', docId: doc.id })
+    return false
+  }
+
+  if (duplicatePaths.length > 0) {
+    const [promoted, ...rest] = duplicatePaths
+    doc.filePath = promoted
+    doc.filename = path.basename(promoted)
+    doc.duplicatePaths = rest
+    notifyChange({ type: 'updated', docId: doc.id })
+    return false
+  }
+
+  removeDocument(doc.id)
+  return true
+}
+
+// ファイルパスに対応するPDFを登録解除する
+export function removePDFByPath(filePath: string): PDFDocument | null {
+  const doc = getDocumentByPath(filePath)
+  if (!doc) return null
+
+  const removed = detachPath(doc, filePath)
+  removeIndexedPDF(filePath)
+  console.log(`PDF ${removed ? 'removed' : 'path detached'}: ${path.basename(filePath)}`)
+  return doc
+}
+
+// 主パスまたは重複パスが一致するドキュメントを探す
+export function getDocumentByPath(filePath: string): PDFDocument | undefined {
+  return Object.values(pdfDocuments).find(
+    (doc) =>
+      isSamePath(doc.filePath, filePath) ||
+      (doc.duplicatePaths ?? []).some((p) => isSamePath(p, filePath))
+  )
+}
+
+export function getPDFDocuments(): { [id: string]: PDFDocument } {
+  return pdfDocuments
+}
@@ -0,0 +1,80 @@
+import { watch, FSWatcher } from 'chokidar'
+import path from 'path'
+
+import { parseInWorker } from './ingestionQueue'
+import { registerPDF, removePDFByPath } from './pdfDocumentStore'
+import { savePDFIndexStore } from './pdfIndexStore'
+import { findRootForPath, isExcludedDirectory, matchesLibraryRoot } from './libraryConfig'
+import { LibraryRoot, PDFDocument, PDFLibraryChangeEvent } from './types/pdfTypes'
+
+let pdfWatcher: FSWatcher | null = null
+// 同じファイルの解析が並行しないようイベントを順番に処理する
+let eventQueue: Promise<void> = Promise.resolve()
+
+// パスが属するルートのinclude/excludeで監視対象か判定する
+function isIgnored(filePath: string, isFile: boolean): boolean {
+  const root = findRootForPath(filePath)
+  if (!root) return false
+  return isFile ? !matchesLibraryRoot(root, filePath) : isExcludedDirectory(root, filePath)
+}
+
+// ライブラリルートを再帰的に監視し、追加・変更・削除をPDF登録に反映する
+export function startPDFFolderWatcher(
+  roots: LibraryRoot[],
+  onChange: (event: PDFLibraryChangeEvent, document: PDFDocument | null) => void
+): FSWatcher {
+  if (pdfWatcher) return pdfWatcher
+
+  pdfWatcher = watch(
+    roots.map((root) => root.path),
+    {
+      // 起動時のファイルは取り込みジョブで登録済み
+      ignoreInitial: true,
+      // コピー途中のファイルを解析しないよう書き込み完了を待つ
+      awaitWriteFinish: { stabilityThreshold: 1000, pollInterval: 100 },
+      // statsが無い段階では判定せず、種別が分かってから除外する
+      ignored: (filePath, stats) => !!stats && isIgnored(filePath, stats.isFile())
+    }
+  )
+
+  const enqueue = (type: PDFLibraryChangeEvent['type'], filePath: string): void => {
+    eventQueue = eventQueue.then(async () => {
+      const filename = path.basename(filePath)
+      try {
+        if (type === 'removed') {
+          const removed = removePDFByPath(filePath)
+          savePDFIndexStore()
+          if (!removed) return
+          onChange({ type, filePath, filename, docId: removed.id }, null)
+          return
+        }
+
+        const { document, duplicateOf } = await registerPDF(
+          filePath,
+          findRootForPath(filePath)?.path,
+          parseInWorker
+        )
+        savePDFIndexStore()
+        onChange({ type, filePath, filename, docId: document.id, duplicateOf }, document)
+      } catch (error) {
+        console.error(`Error handling ${type} for ${filePath}:`, error)
+        onChange({ type, filePath, filename, error: (error as Error).message }, null)
+      }
+    })
+  }
+
+  pdfWatcher
+    .on('add', (filePath) => enqueue('added', filePath))
+    .on('change', (filePath) => enqueue('changed', filePath))
+    .on('unlink', (filePath) => enqueue('removed', filePath))
+    .on('error', (error) => console.error('PDF folder watcher error:', error))
+
+  console.log(`Watching library roots: ${roots.map((root) => root.path).join(', ')}`)
+  return pdfWatcher
+}
+
+export async function stopPDFFolderWatcher(): Promise<void> {
+  if (!pdfWatcher) return
+  await pdfWatcher.close()
+  pdfWatcher = null
+}
@@ -0,0 +1,138 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+import { loadDocument } from './documentLoaders'
+import { DocumentParser, IndexedPDFEntry, PDFIndexFile } from './types/pdfTypes'
+
+const INDEX_FILE_NAME = 'pdf-index.json'
+const INDEX_VERSION = 4
+
+let indexFilePath: string | null = null
+let indexEntries: { [filePath: string]: IndexedPDFEntry } = {}
+let dirty = false
+
+// インデックスストアを初期化し、保存済みのインデックスを読み込む
+export function initPDFIndexStore(storeDir: string): void {
+  indexFilePath = path.join(storeDir, INDEX_FILE_NAME)
+  indexEntries = {}
+  dirty = false
+
+  if (!fs.existsSync(indexFilePath)) {
+    console.log(`PDF index not found, starting empty: ${indexFilePath}`)
+    return
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(indexFilePath, 'utf-8')) as PDFIndexFile
+    if (raw.version !== INDEX_VERSION) {
+      console.log(`PDF index version mismatch (${raw.version}), rebuilding`)
+      return
+    }
+    indexEntries = raw.entries ?? {}
+    console.log(`PDF index loaded: ${Object.keys(indexEntries).length} entries`)
+  } catch (error) {
+    console.error('Error loading PDF index, rebuilding:', error)
+    indexEntries = {}
+  }
+}
+
+export function hashBuffer(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex')
+}
+
+// 相対パスと絶対パスで同じファイルが二重に登録されないようキーを正規化する
+function toIndexKey(filePath: string): string {
+  return path.resolve(filePath)
+}
+
+// 変更のない文書はインデックスから返し、新規・変更ファイルのみparseで再解析する (形式は拡張子で判定)
+export async function loadPDFWithIndex(
+  pdfPath: string,
+  parse: DocumentParser = loadDocument
+): Promise<IndexedPDFEntry> {
+  const filePath = toIndexKey(pdfPath)
+  const stat = fs.statSync(filePath)
+  const cached = indexEntries[filePath]
+
+  // mtimeとサイズが一致すればファイルを読まずにキャッシュを使う
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached
+  }
+
+  const buffer = fs.readFileSync(filePath)
+  const hash = hashBuffer(buffer)
+
+  // mtimeだけ変わって中身が同じ場合 (コピー、touch等) は再解析しない
+  if (cached && cached.hash === hash) {
+    const entry: IndexedPDFEntry = { ...cached, mtimeMs: stat.mtimeMs, size: stat.size }
+    indexEntries[filePath] = entry
+    dirty = true
+    return entry
+  }
+
+  const parsed = await parse(filePath, buffer)
+  const entry: IndexedPDFEntry = {
+    filePath,
+    format: parsed.format,
+    hash,
+    mtimeMs: stat.mtimeMs,
+    size: buffer.length,
+    text: parsed.text,
+    pageOffsets: parsed.pageOffsets,
+    numpages: parsed.numpages,
+    info: parsed.info,
+    xmp: parsed.xmp,
+    outline: parsed.outline,
+    indexedAt: new Date().toISOString()
+  }
+  indexEntries[filePath] = entry
+  dirty = true
+  console.log(`Document parsed and indexed (${parsed.format}): ${path.basename(filePath)}`)
+  return entry
+}
+
+export function getIndexedPDF(pdfPath: string): IndexedPDFEntry | undefined {
+  return indexEntries[toIndexKey(pdfPath)]
+}
+
+export function removeIndexedPDF(pdfPath: string): void {
+  const filePath = toIndexKey(pdfPath)
+  if (indexEntries[filePath]) {
+    delete indexEntries[filePath]
+    dirty = true
+  }
+}
+
+// ディスク上に存在しなくなったファイルのエントリを削除
+export function pruneMissingPDFs(): number {
+  let removed = 0
+  for (const filePath of Object.keys(indexEntries)) {
+    if (!fs.existsSync(filePath)) {
+      delete indexEntries[filePath]
+      removed++
+    }
+  }
+  if (removed > 0) dirty = true
+  return removed
+}
+
+// 変更があった場合のみインデックスをディスクに書き出す
+export function savePDFIndexStore(): void {
+  if (!indexFilePath || !dirty) return
+
+  // 書き込み途中で終了しても壊れないよう一時ファイル経由で置き換える。
+  // アプリと--mcp-stdioのプロセスが同じインデックスを書くため、一時ファイル名はプロセスごとに変える
+  const tmpPath = `${indexFilePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+  try {
+    fs.mkdirSync(path.dirname(indexFilePath), { recursive: true })
+    const data: PDFIndexFile = { version: INDEX_VERSION, entries: indexEntries }
+    fs.writeFileSync(tmpPath, JSON.stringify(data))
+    fs.renameSync(tmpPath, indexFilePath)
+    dirty = false
+    console.log(`PDF index saved: ${Object.keys(indexEntries).length} entries`)
+  } catch (error) {
+    console.error('Error saving PDF index:', error)
+    fs.rmSync(tmpPath, { force: true })
+  }
+}
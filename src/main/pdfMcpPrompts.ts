@@ -0,0 +1,311 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+
+import { getDocument, listDocuments, searchDocuments } from './pdfDocumentStore'
+import { pageRangeBounds } from './pdfTextExtractor'
+import { tokenize } from './searchTokenizer'
+import {
+  DocumentPromptArgument,
+  DocumentPromptInfo,
+  PDFDocument,
+  SearchQueryNode
+} from './types/pdfTypes'
+
+// プロンプトに埋め込む本文の既定の上限 (文字数)
+const DEFAULT_MAX_CONTENT_LENGTH = 50000
+const SUMMARY_LENGTHS = ['one-sentence', 'short', 'detailed'] as const
+// 文書を指定しないanswer-with-citationsで根拠として使う検索結果の数
+const CITATION_SEARCH_RESULTS = 5
+
+type PromptArguments = Record<string, string | undefined>
+
+interface RenderOptions {
+  maxContentLength: number
+}
+
+interface DocumentPromptDefinition extends DocumentPromptInfo {
+  render: (args: PromptArguments, options: RenderOptions) => string
+}
+
+const languageArgument: DocumentPromptArgument = {
+  name: 'language',
+  description:
+    'Language of the answer, e.g. "English" or "Japanese" (default: the language of the document or question)',
+  required: false
+}
+
+function resolveDocument(docId: string | undefined): PDFDocument {
+  const doc = docId ? getDocument(docId) : undefined
+  if (!doc) throw new Error(`Document not found: ${docId}`)
+  return doc
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n...(truncated)` : text
+}
+
+function languageInstruction(language: string | undefined, fallback = 'the document'): string {
+  return language
+    ? `Write your answer in ${language}.`
+    : `Write your answer in the same language as ${fallback}.`
+}
+
+// 文書本文を区切り線で囲んで埋め込む。引用用にはページ番号の見出しを付ける
+function formatDocument(doc: PDFDocument, maxLength: number, withPageMarkers = false): string {
+  let body = doc.content
+  if (withPageMarkers && doc.metadata.pages > 1) {
+    const pages: string[] = []
+    for (let page = 1; page <= doc.metadata.pages; page++) {
+      const bounds = pageRangeBounds(doc.pageOffsets, doc.content.length, page)
+      if (bounds)
+        pages.push(`[Page ${page}]\n${doc.content.substring(bounds.start, bounds.end).trim()}`)
+    }
+    body = pages.join('\n\n')
+  }
+  return [
+    `Document: ${doc.filename} (docId: ${doc.id}, ${doc.metadata.pages} pages)`,
+    '----------------------------',
+    truncate(body.trim(), maxLength),
+    '----------------------------'
+  ].join('\n')
+}
+
+function summaryLengthInstruction(length: string | undefined): string {
+  switch (length) {
+    case 'one-sentence':
+      return 'Summarize the document in a single sentence.'
+    case 'detailed':
+      return 'Write a detailed summary that covers each section of the document, using a heading per section.'
+    default:
+      return 'Summarize the document in one paragraph of three to five sentences.'
+  }
+}
+
+// 質問の語のいずれかを含む文書を探す (質問文をそのまま検索すると全語のANDになるため)
+function questionQuery(question: string): SearchQueryNode | null {
+  const terms = [...new Set(tokenize(question).map((token) => token.term))]
+  if (terms.length === 0) return null
+  return { type: 'or', children: terms.map((term) => ({ type: 'term', value: term })) }
+}
+
+function citationExcerpts(question: string): string {
+  const query = questionQuery(question)
+  const hits = query
+    ? searchDocuments(query, {
+        maxResults: CITATION_SEARCH_RESULTS,
+        maxMatchesPerDocument: 3,
+        contextLength: 300
+      }).hits
+    : []
+  if (hits.length === 0)
+    return 'No passages matching the question were found in the registered documents.'
+
+  return hits
+    .flatMap((hit) =>
+      hit.matches.map(
+        (match) => `[${hit.document.filename}, p.${match.page}]\n${match.context.trim()}`
+      )
+    )
+    .join('\n\n')
+}
+
+const DOCUMENT_PROMPTS: DocumentPromptDefinition[] = [
+  {
+    name: 'summarize-document',
+    title: 'Summarize Document',
+    description: 'Summarize a registered document',
+    arguments: [
+      { name: 'docId', description: 'Document ID to summarize', required: true },
+      {
+        name: 'length',
+        description: 'Length of the summary (default: short)',
+        required: false,
+        options: [...SUMMARY_LENGTHS]
+      },
+      languageArgument
+    ],
+    render: ({ docId, length, language }, { maxContentLength }) => {
+      const doc = resolveDocument(docId)
+      return [
+        summaryLengthInstruction(length),
+        languageInstruction(language),
+        '',
+        formatDocument(doc, maxContentLength)
+      ].join('\n')
+    }
+  },
+  {
+    name: 'compare-documents',
+    title: 'Compare Documents',
+    description: 'Compare two or more registered documents',
+    arguments: [
+      {
+        name: 'docIds',
+        description: 'Comma-separated IDs of the documents to compare (at least two)',
+        required: true
+      },
+      {
+        name: 'focus',
+        description: 'Aspect to focus the comparison on, e.g. "methodology"',
+        required: false
+      },
+      languageArgument
+    ],
+    render: ({ docIds, focus, language }, { maxContentLength }) => {
+      const ids = [
+        ...new Set(
+          (docIds ?? '')
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean)
+        )
+      ]
+      if (ids.length < 2) throw new Error('Specify at least two document IDs to compare')
+      const docs = ids.map(resolveDocument)
+      // 上限は文書の数で分け合う
+      const perDocument = Math.floor(maxContentLength / docs.length)
+      const lines = [
+        `Compare the following ${docs.length} documents. Describe what they have in common, how they differ, and conclude with a short overall assessment.`
+      ]
+      if (focus) lines.push(`Focus the comparison on: ${focus}`)
+      lines.push(
+        languageInstruction(language),
+        '',
+        ...docs.map((doc) => formatDocument(doc, perDocument))
+      )
+      return lines.join('\n')
+    }
+  },
+  {
+    name: 'extract-key-points',
+    title: 'Extract Key Points',
+    description: 'List the key points of a registered document',
+    arguments: [
+      { name: 'docId', description: 'Document ID to extract key points from', required: true },
+      { name: 'count', description: 'Maximum number of key points (default: 5)', required: false },
+      languageArgument
+    ],
+    render: ({ docId, count, language }, { maxContentLength }) => {
+      const doc = resolveDocument(docId)
+      const maxPoints = count ? Number(count) : 5
+      if (!Number.isInteger(maxPoints) || maxPoints < 1) throw new Error(`Invalid count: ${count}`)
+      return [
+        `List at most ${maxPoints} key points of the document as a bulleted list, most important first. Keep each point to one or two sentences.`,
+        languageInstruction(language),
+        '',
+        formatDocument(doc, maxContentLength)
+      ].join('\n')
+    }
+  },
+  {
+    name: 'answer-with-citations',
+    title: 'Answer with Citations',
+    description:
+      'Answer a question from a registered document, or from matching passages of all documents, citing the pages used',
+    arguments: [
+      { name: 'question', description: 'Question to answer', required: true },
+      {
+        name: 'docId',
+        description: 'Document ID to answer from (default: search all registered documents)',
+        required: false
+      },
+      languageArgument
+    ],
+    render: ({ question, docId, language }, { maxContentLength }) => {
+      if (!question?.trim()) throw new Error('A question is required')
+      const sources = docId
+        ? formatDocument(resolveDocument(docId), maxContentLength, true)
+        : truncate(citationExcerpts(question), maxContentLength)
+      return [
+        'Answer the question using only the sources below.',
+        'Cite the source of every statement as [filename, p.N]. If the sources do not contain the answer, say so instead of guessing.',
+        languageInstruction(language, 'the question'),
+        '',
+        `Question: ${question.trim()}`,
+        '',
+        'Sources:',
+        sources
+      ].join('\n')
+    }
+  }
+]
+
+function findPrompt(name: string): DocumentPromptDefinition {
+  const prompt = DOCUMENT_PROMPTS.find((p) => p.name === name)
+  if (!prompt) throw new Error(`Prompt not found: ${name}`)
+  return prompt
+}
+
+export function listDocumentPrompts(): DocumentPromptInfo[] {
+  return DOCUMENT_PROMPTS.map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args
+  }))
+}
+
+// プロンプトの本文を組み立てる。必須の引数が無い・文書が無い場合はエラー
+export function renderDocumentPrompt(
+  name: string,
+  args: PromptArguments,
+  options: Partial<RenderOptions> = {}
+): string {
+  const prompt = findPrompt(name)
+  for (const arg of prompt.arguments) {
+    const value = args[arg.name]
+    if (arg.required && !value) throw new Error(`Missing argument: ${arg.name}`)
+    if (value && arg.options && !arg.options.includes(value)) {
+      throw new Error(`Invalid ${arg.name}: ${value} (expected one of ${arg.options.join(', ')})`)
+    }
+  }
+  return prompt.render(args, {
+    maxContentLength: options.maxContentLength ?? DEFAULT_MAX_CONTENT_LENGTH
+  })
+}
+
+function completeDocId(value: string | undefined): string[] {
+  return listDocuments()
+    .map((doc) => doc.id)
+    .filter((id) => id.startsWith(value ?? ''))
+}
+
+// 引数の定義からMCPのargsSchemaを作る。docIdは登録済みの文書IDで補完する
+function argsSchema(
+  args: DocumentPromptArgument[]
+): Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>> {
+  return Object.fromEntries(
+    args.map((arg) => {
+      let schema: z.ZodType<string> = arg.options
+        ? z.enum(arg.options as [string, ...string[]])
+        : z.string()
+      if (arg.name === 'docId') schema = completable(schema, completeDocId)
+      schema = schema.describe(arg.description)
+      return [arg.name, arg.required ? schema : schema.optional()]
+    })
+  )
+}
+
+// 文書を扱う定型のプロンプトをMCPサーバーに登録する
+export function registerDocumentPrompts(server: McpServer): void {
+  for (const prompt of DOCUMENT_PROMPTS) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: argsSchema(prompt.arguments)
+      },
+      (args) => ({
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: renderDocumentPrompt(prompt.name, args) }
+          }
+        ]
+      })
+    )
+  }
+}
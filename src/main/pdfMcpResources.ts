@@ -0,0 +1,184 @@
+import {
+  McpServer,
+  ReadResourceTemplateCallback,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  McpError,
+  ErrorCode,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+
+import { getDocumentAnnotations } from './documentAnnotations'
+import { getDocument, listDocuments, onDocumentStoreChange } from './pdfDocumentStore'
+import { pageRangeBounds } from './pdfTextExtractor'
+import { DocumentStoreChange, PDFDocument } from './types/pdfTypes'
+
+const DOCUMENT_URI_PREFIX = 'pdf://'
+// 取り込み中は文書が続けて追加されるため、一覧変更の通知はまとめて送る
+const LIST_CHANGED_DELAY_MS = 500
+
+// リソースを公開しているサーバーと、各クライアントが購読しているURI
+const resourceServers = new Map<McpServer, Set<string>>()
+let listChangedTimer: NodeJS.Timeout | null = null
+let listeningToStore = false
+
+export function documentUri(docId: string, page?: number): string {
+  return page === undefined
+    ? `${DOCUMENT_URI_PREFIX}${docId}`
+    : `${DOCUMENT_URI_PREFIX}${docId}/page/${page}`
+}
+
+function documentMetadata(doc: PDFDocument): Record<string, unknown> {
+  return {
+    docId: doc.id,
+    filename: doc.filename,
+    format: doc.format,
+    filePath: doc.filePath,
+    pages: doc.metadata.pages,
+    contentLength: doc.content.length,
+    createdAt: doc.metadata.createdAt,
+    info: doc.metadata.info,
+    sections: doc.outline.sections.map((section) => section.title),
+    ...getDocumentAnnotations(doc.id)
+  }
+}
+
+function resolveDocument(docId: string | string[]): PDFDocument {
+  const doc = getDocument(String(docId))
+  if (!doc) throw new McpError(ErrorCode.InvalidParams, `Document not found: ${docId}`)
+  return doc
+}
+
+function completeDocId(value: string): string[] {
+  return listDocuments()
+    .map((doc) => doc.id)
+    .filter((id) => id.startsWith(value))
+}
+
+function forEachConnectedServer(
+  send: (server: McpServer, subscriptions: Set<string>) => void
+): void {
+  for (const [server, subscriptions] of resourceServers) {
+    if (server.isConnected()) send(server, subscriptions)
+  }
+}
+
+const readDocument: ReadResourceTemplateCallback = (uri, { docId }) => {
+  const doc = resolveDocument(docId)
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(documentMetadata(doc), null, 2)
+      },
+      { uri: uri.href, mimeType: 'text/plain', text: doc.content }
+    ]
+  }
+}
+
+const readDocumentPage: ReadResourceTemplateCallback = (uri, { docId, n }) => {
+  const doc = resolveDocument(docId)
+  const page = Number(n)
+  const bounds = Number.isInteger(page)
+    ? pageRangeBounds(doc.pageOffsets, doc.content.length, page)
+    : null
+  if (!bounds) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Page out of bounds: ${n} (document has ${doc.metadata.pages} pages)`
+    )
+  }
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'text/plain',
+        text: doc.content.substring(bounds.start, bounds.end)
+      }
+    ]
+  }
+}
+
+// 一覧の変更はまとめて通知し、購読中の文書 (とそのページ) には更新を通知する
+function handleDocumentStoreChange(change: DocumentStoreChange): void {
+  if (change.type !== 'updated' && !listChangedTimer) {
+    listChangedTimer = setTimeout(() => {
+      listChangedTimer = null
+      forEachConnectedServer((server) => server.sendResourceListChanged())
+    }, LIST_CHANGED_DELAY_MS)
+    listChangedTimer.unref()
+  }
+  if (change.type === 'added') return
+
+  const uri = documentUri(change.docId)
+  forEachConnectedServer((server, subscriptions) => {
+    for (const subscribed of subscriptions) {
+      if (subscribed === uri || subscribed.startsWith(`${uri}/`)) {
+        server.server.sendResourceUpdated({ uri: subscribed }).catch((error) => {
+          console.error(`Error sending resource update for ${subscribed}:`, error)
+        })
+      }
+    }
+  })
+}
+
+// 登録済み文書を pdf://{docId} と pdf://{docId}/page/{n} のリソースとして公開する
+export function registerDocumentResources(server: McpServer): void {
+  server.registerResource(
+    'document',
+    new ResourceTemplate(documentUri('{docId}'), {
+      list: () => ({
+        resources: listDocuments().map((doc) => ({
+          uri: documentUri(doc.id),
+          name: doc.filename,
+          title: doc.metadata.info.title,
+          description: `${doc.format.toUpperCase()}, ${doc.metadata.pages} pages`,
+          mimeType: 'text/plain'
+        }))
+      }),
+      complete: { docId: completeDocId }
+    }),
+    {
+      title: 'Registered document',
+      description: 'Metadata (JSON) and full text of a registered document'
+    },
+    readDocument
+  )
+
+  // ページ単位のリソースは数が多いため一覧には含めず、テンプレートとしてのみ公開する
+  server.registerResource(
+    'document-page',
+    new ResourceTemplate(`${documentUri('{docId}')}/page/{n}`, {
+      list: undefined,
+      complete: { docId: completeDocId }
+    }),
+    {
+      title: 'Document page',
+      description: 'Text of one page (1-based) of a registered document'
+    },
+    readDocumentPage
+  )
+
+  const subscriptions = new Set<string>()
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } })
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+
+  resourceServers.set(server, subscriptions)
+  // HTTPのセッションが終わったサーバーには通知しない
+  server.server.onclose = () => resourceServers.delete(server)
+
+  if (!listeningToStore) {
+    onDocumentStoreChange(handleDocumentStoreChange)
+    listeningToStore = true
+  }
+}
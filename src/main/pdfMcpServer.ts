@@ -1,163 +1,297 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
-import fs from 'fs'
-import path from 'path'
-import pdfParse from 'pdf-parse'
 
-import { PDFDocument, SearchMatch, SearchResult } from './types/pdfTypes'
+import { supportedExtensions } from './documentLoaders'
+import { getDocumentAnnotations } from './documentAnnotations'
+import { findSection } from './documentOutline'
+import { parseInWorker } from './ingestionQueue'
+import { registerDocumentPrompts } from './pdfMcpPrompts'
+import { registerDocumentResources } from './pdfMcpResources'
+import { pageAtPosition, pageRangeBounds } from './pdfTextExtractor'
+import { savePDFIndexStore } from './pdfIndexStore'
+import {
+  filterDocuments,
+  getDocument,
+  getDocumentCount,
+  registerPDF,
+  removeDocument,
+  searchDocuments
+} from './pdfDocumentStore'
+import { decodeSearchCursor, SearchCursorState } from './searchCursor'
+import {
+  combineFilters,
+  maxEditsSchema,
+  searchModeSchema,
+  searchQueryNodeSchema,
+  searchSortFieldSchema
+} from './searchQueryParser'
+import { RankedSearchPage, SearchResult } from './types/pdfTypes'
 
 let pdfMcpServer: McpServer | null = null
-let pdfDocuments: { [id: string]: PDFDocument } = {}
 
-export async function createPDFMcpServer(): Promise<McpServer> {
-  if (pdfMcpServer) return pdfMcpServer
-
-  pdfMcpServer = new McpServer({
+// 検索ツールを登録したMCPサーバーを新しく作る。
+// 1つのMcpServerは1つのトランスポートにしか接続できないため、HTTPではセッションごとに作る
+export function buildPDFMcpServer(): McpServer {
+  const server = new McpServer({
     name: 'pdf-search-server',
     version: '1.0.0'
   })
 
   // PDF登録ツール
-  pdfMcpServer.registerTool('register-pdf',
+  server.registerTool(
+    'register-pdf',
     {
-      title: 'Register PDF Document',
-      description: 'Register a PDF document for search and retrieval',
+      title: 'Register Document',
+      description: `Register a document for search and retrieval. Supported file types: ${supportedExtensions().join(', ')}`,
       inputSchema: {
-        filePath: z.string().describe('Path to the PDF file')
+        filePath: z.string().describe('Path to the PDF, Markdown, text, HTML or DOCX file')
       }
     },
     async ({ filePath }) => {
       try {
-        const buffer = fs.readFileSync(filePath)
-        const parsed = await pdfParse(buffer)
-        
-        const docId = `pdf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        const filename = path.basename(filePath)
-        
-        const document: PDFDocument = {
-          id: docId,
+        const { document, status, duplicateOf } = await registerPDF(
           filePath,
-          filename,
-          content: parsed.text,
-          metadata: {
-            pages: parsed.numpages || 0,
-            size: buffer.length,
-            createdAt: new Date(),
-            info: parsed.info
-          }
-        }
-        
-        pdfDocuments[docId] = document
-        
-        console.log(`PDF registered: ${filename} (${parsed.text.length} characters)`)
-        
+          undefined,
+          parseInWorker
+        )
+        savePDFIndexStore()
+
         return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              docId,
-              filename,
-              pages: document.metadata.pages,
-              contentLength: parsed.text.length
-            }, null, 2)
-          }]
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  status,
+                  duplicateOf,
+                  docId: document.id,
+                  filename: document.filename,
+                  format: document.format,
+                  pages: document.metadata.pages,
+                  contentLength: document.content.length
+                },
+                null,
+                2
+              )
+            }
+          ]
         }
       } catch (error) {
         return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: (error as Error).message
-            }, null, 2)
-          }]
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: (error as Error).message
+                },
+                null,
+                2
+              )
+            }
+          ]
         }
       }
     }
   )
 
   // PDF検索ツール
-  pdfMcpServer.registerTool('search-pdfs',
+  server.registerTool(
+    'search-pdfs',
     {
-      title: 'Search PDF Documents',
-      description: 'Search for text within registered PDF documents',
+      title: 'Search Documents',
+      description:
+        'Search registered documents (PDF, Markdown, text, HTML and DOCX). Results are ranked by BM25 relevance and paged: pass nextCursor to get ' +
+        "the next page of documents, or a result's nextMatchesCursor to get more matches from that document. " +
+        'Each match has highlights, the [start, end) character ranges of the hits within its context',
       inputSchema: {
-        query: z.string().describe('Search query'),
-        maxResults: z.number().optional().describe('Maximum number of results (default: 10)'),
-        contextLength: z.number().optional().describe('Length of context around matches (default: 200)')
+        query: z
+          .union([z.string(), searchQueryNodeSchema])
+          .optional()
+          .describe(
+            'Search query. Either a string supporting "quoted phrases", AND/OR/NOT, -term, parentheses and filters ' +
+              '(filename:report*, title:, author:, subject:, keywords:, producer:, lang:, pages:>20, pages:10..50, ' +
+              'added:2026-01.., created:2019, modified:>=2024-06, tag:, collection:"Reading list"), or the equivalent ' +
+              'structured query tree. ' +
+              'Required unless cursor is given'
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'nextCursor or nextMatchesCursor from a previous response. The query and all other options are taken from the cursor'
+          ),
+        mode: searchModeSchema
+          .optional()
+          .describe(
+            'Search mode (default: query). query: the query syntax above; literal: match the string exactly, ' +
+              'ignoring case; regex: JavaScript regular expression, ignoring case (time-limited, no nested quantifiers ' +
+              'or backreferences); fuzzy: query syntax that also matches words within maxEdits edits, for typos and OCR noise'
+          ),
+        maxEdits: maxEditsSchema
+          .optional()
+          .describe(
+            'Maximum edit distance per word in fuzzy mode (0-2, default: 1). Words shorter than 3 characters must match exactly'
+          ),
+        tag: z.string().optional().describe('Only search documents with this tag'),
+        collection: z.string().optional().describe('Only search documents in this collection'),
+        maxResults: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Number of documents per page (default: 10)'),
+        maxMatchesPerDocument: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Number of matches per document (default: 3)'),
+        contextLength: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Length of context around matches (default: 200)'),
+        sortBy: searchSortFieldSchema
+          .optional()
+          .describe('Sort order of documents (default: relevance)'),
+        order: z
+          .enum(['asc', 'desc'])
+          .optional()
+          .describe(
+            'Sort direction (default: desc for relevance, dates and pages; asc for text fields)'
+          )
       }
     },
-    async ({ query, maxResults = 10, contextLength = 200 }) => {
-      const results: SearchResult[] = []
-      const queryLower = query.toLowerCase()
-      
-      for (const doc of Object.values(pdfDocuments)) {
-        const contentLower = doc.content.toLowerCase()
-        const matches: SearchMatch[] = []
-        let startIndex = 0
-        
-        // Find all occurrences of the query
-        while (startIndex < contentLower.length) {
-          const index = contentLower.indexOf(queryLower, startIndex)
-          if (index === -1) break
-          
-          // Extract context around the match
-          const contextStart = Math.max(0, index - contextLength)
-          const contextEnd = Math.min(doc.content.length, index + query.length + contextLength)
-          const context = doc.content.substring(contextStart, contextEnd)
-          
-          matches.push({
-            position: index,
-            context: context.trim(),
-            preview: context.replace(new RegExp(query, 'gi'), `**${query}**`)
-          })
-          
-          startIndex = index + query.length
-          
-          if (matches.length >= maxResults) break
+    async ({
+      query,
+      cursor,
+      mode = 'query',
+      maxEdits,
+      tag,
+      collection,
+      maxResults = 10,
+      maxMatchesPerDocument = 3,
+      contextLength = 200,
+      sortBy,
+      order
+    }) => {
+      let request: SearchCursorState
+      let page: RankedSearchPage
+      try {
+        if (cursor) {
+          request = decodeSearchCursor(cursor)
+        } else if (query !== undefined) {
+          const sort = sortBy ? { field: sortBy, order } : undefined
+          const filter = combineFilters(undefined, { tag, collection })
+          request = {
+            query,
+            options: {
+              mode,
+              maxEdits,
+              maxResults,
+              maxMatchesPerDocument,
+              contextLength,
+              filter,
+              sort
+            }
+          }
+        } else {
+          throw new Error('Either query or cursor is required')
         }
-        
-        if (matches.length > 0) {
-          results.push({
-            docId: doc.id,
-            filename: doc.filename,
-            totalMatches: matches.length,
-            matches: matches.slice(0, Math.min(matches.length, maxResults)),
-            metadata: doc.metadata
-          })
+        page = searchDocuments(request.query, request.options)
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: (error as Error).message
+                },
+                null,
+                2
+              )
+            }
+          ]
         }
-        
-        if (results.length >= maxResults) break
       }
-      
+
+      const results: SearchResult[] = page.hits.map((hit) => ({
+        docId: hit.document.id,
+        filename: hit.document.filename,
+        format: hit.document.format,
+        score: hit.score,
+        totalMatches: hit.totalMatches,
+        matchOffset: hit.matchOffset,
+        matches: hit.matches,
+        nextMatchesCursor: hit.nextMatchesCursor,
+        metadata: hit.document.metadata
+      }))
+
       return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            query,
-            totalDocuments: Object.keys(pdfDocuments).length,
-            resultsFound: results.length,
-            results
-          }, null, 2)
-        }]
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                query: request.query,
+                mode: request.options.mode ?? 'query',
+                totalDocuments: getDocumentCount(),
+                totalResults: page.totalHits,
+                totalMatches: page.totalMatches,
+                offset: page.offset,
+                resultsFound: results.length,
+                nextCursor: page.nextCursor,
+                facets: page.facets,
+                results
+              },
+              null,
+              2
+            )
+          }
+        ]
       }
     }
   )
 
   // PDF全文取得ツール
-  pdfMcpServer.registerTool('get-pdf-content',
+  server.registerTool(
+    'get-pdf-content',
     {
-      title: 'Get Full PDF Content',
-      description: 'Get the complete text content of a registered PDF',
+      title: 'Get Document Content',
+      description:
+        'Get the text content of a registered document, optionally limited to a section, a page range or a character range',
       inputSchema: {
         docId: z.string().describe('Document ID'),
+        section: z
+          .string()
+          .optional()
+          .describe(
+            'Section title or number from get-document-outline, e.g. "Introduction" or "2.1". Takes precedence over startPage and startChar'
+          ),
+        startPage: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('First page to return (1-based). Takes precedence over startChar'),
+        endPage: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Last page to return, inclusive (default: startPage)'),
         startChar: z.number().optional().describe('Start character position (default: 0)'),
         length: z.number().optional().describe('Length of text to return (default: full content)')
       }
     },
-    async ({ docId, startChar = 0, length }) => {
-      const doc = pdfDocuments[docId]
+    async ({ docId, section, startPage, endPage, startChar = 0, length }) => {
+      const doc = getDocument(docId)
       if (!doc) {
         return {
           content: [{
@@ -170,9 +304,61 @@ export async function createPDFMcpServer(): Promise<McpServer> {
         }
       }
       
-      const content = length 
-        ? doc.content.substring(startChar, startChar + length)
-        : doc.content.substring(startChar)
+      // セクションまたはページの指定がある場合は文字位置の範囲に変換する
+      let rangeStart = startChar
+      let rangeEnd = length ? startChar + length : doc.content.length
+      const matchedSection = section ? findSection(doc.outline, section) : undefined
+      if (section && !matchedSection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: `Section not found: ${section}. Use get-document-outline to list the sections`
+                },
+                null,
+                2
+              )
+            }
+          ]
+        }
+      }
+      if (matchedSection) {
+        rangeStart = matchedSection.start
+        rangeEnd = length
+          ? Math.min(matchedSection.end, matchedSection.start + length)
+          : matchedSection.end
+      } else if (startPage !== undefined) {
+        const bounds = pageRangeBounds(
+          doc.pageOffsets,
+          doc.content.length,
+          startPage,
+          endPage ?? startPage
+        )
+        if (!bounds) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: `Page range out of bounds (document has ${doc.metadata.pages} pages)`
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          }
+        }
+        rangeStart = bounds.start
+        rangeEnd = length ? Math.min(bounds.end, bounds.start + length) : bounds.end
+      }
+
+      const content = doc.content.substring(rangeStart, rangeEnd)
       
       return {
         content: [{
@@ -181,7 +367,11 @@ export async function createPDFMcpServer(): Promise<McpServer> {
             success: true,
             docId: doc.id,
             filename: doc.filename,
-            startChar,
+            section: matchedSection?.title,
+            startChar: rangeStart,
+            startPage: pageAtPosition(doc.pageOffsets, rangeStart),
+            endPage: pageAtPosition(doc.pageOffsets, Math.max(rangeStart, rangeEnd - 1)),
+            totalPages: doc.metadata.pages,
             contentLength: content.length,
             content
           }, null, 2)
@@ -190,21 +380,121 @@ export async function createPDFMcpServer(): Promise<McpServer> {
     }
   )
 
+  // 目次取得ツール
+  server.registerTool(
+    'get-document-outline',
+    {
+      title: 'Get Document Outline',
+      description:
+        'Get the table of contents of a registered document. Uses the outline embedded in the file (PDF bookmarks, ' +
+        'Markdown or HTML headings) and falls back to headings detected in the text. Pass a section title to ' +
+        'get-pdf-content to read that section',
+      inputSchema: {
+        docId: z.string().describe('Document ID'),
+        maxLevel: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Only return headings up to this depth (1 = top level)')
+      }
+    },
+    async ({ docId, maxLevel }) => {
+      const doc = getDocument(docId)
+      if (!doc) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: 'Document not found'
+                },
+                null,
+                2
+              )
+            }
+          ]
+        }
+      }
+
+      const sections = doc.outline.sections
+        .filter((section) => maxLevel === undefined || section.level <= maxLevel)
+        .map((section) => ({
+          title: section.title,
+          level: section.level,
+          page: section.page,
+          endPage: pageAtPosition(doc.pageOffsets, Math.max(section.start, section.end - 1)),
+          startChar: section.start,
+          length: section.end - section.start
+        }))
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: true,
+                docId: doc.id,
+                filename: doc.filename,
+                source: doc.outline.source,
+                totalSections: sections.length,
+                sections
+              },
+              null,
+              2
+            )
+          }
+        ]
+      }
+    }
+  )
+
   // PDF一覧取得ツール
-  pdfMcpServer.registerTool('list-pdfs',
+  server.registerTool(
+    'list-pdfs',
     {
-      title: 'List PDF Documents',
-      description: 'List all registered PDF documents',
-      inputSchema: {}
+      title: 'List Documents',
+      description:
+        'List registered documents with their format, title, author and other document properties, ' +
+        'and the tags, collections and notes added in the library',
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            'Only list documents matching this search query, e.g. author:smith created:2020..2023 lang:ja tag:review'
+          ),
+        tag: z.string().optional().describe('Only list documents with this tag'),
+        collection: z.string().optional().describe('Only list documents in this collection'),
+        sortBy: searchSortFieldSchema
+          .optional()
+          .describe('Sort order (default: registration order)'),
+        order: z
+          .enum(['asc', 'desc'])
+          .optional()
+          .describe('Sort direction (default: desc for dates and pages, asc for text fields)')
+      }
     },
-    async () => {
-      const documentList = Object.values(pdfDocuments).map(doc => ({
+    async ({ filter, tag, collection, sortBy, order }) => {
+      const query = combineFilters(filter || undefined, { tag, collection })
+      const documentList = filterDocuments(
+        query,
+        sortBy ? { field: sortBy, order } : undefined
+      ).map((doc) => ({
         docId: doc.id,
         filename: doc.filename,
+        format: doc.format,
         pages: doc.metadata.pages,
         contentLength: doc.content.length,
         createdAt: doc.metadata.createdAt,
-        filePath: doc.filePath
+        info: doc.metadata.info,
+        sectionCount: doc.outline.sections.length,
+        ...getDocumentAnnotations(doc.id),
+        filePath: doc.filePath,
+        duplicatePaths: doc.duplicatePaths ?? []
       }))
       
       return {
@@ -220,16 +510,17 @@ export async function createPDFMcpServer(): Promise<McpServer> {
   )
 
   // PDF削除ツール
-  pdfMcpServer.registerTool('remove-pdf',
+  server.registerTool(
+    'remove-pdf',
     {
-      title: 'Remove PDF Document',
-      description: 'Remove a PDF document from the search index',
+      title: 'Remove Document',
+      description: 'Remove a document from the search index',
       inputSchema: {
         docId: z.string().describe('Document ID to remove')
       }
     },
     async ({ docId }) => {
-      const doc = pdfDocuments[docId]
+      const doc = getDocument(docId)
       if (!doc) {
         return {
           content: [{
@@ -243,7 +534,7 @@ export async function createPDFMcpServer(): Promise<McpServer> {
       }
       
       const filename = doc.filename
-      delete pdfDocuments[docId]
+      removeDocument(docId)
       
       return {
         content: [{
@@ -258,68 +549,19 @@ export async function createPDFMcpServer(): Promise<McpServer> {
     }
   )
 
-  console.log('PDF MCP Server created with search capabilities')
-  return pdfMcpServer
-}
-
-// フォルダ内のすべてのPDFを自動登録
-export async function registerPDFsFromFolder(folderPath: string): Promise<string[]> {
-  if (!pdfMcpServer) {
-    await createPDFMcpServer()
-  }
-  
-  const registeredIds: string[] = []
-  
-  try {
-    if (!fs.existsSync(folderPath)) {
-      console.log(`Directory ${folderPath} does not exist`)
-      return registeredIds
-    }
+  // 登録済み文書をリソースとしても公開し、文書を扱う定型のプロンプトを登録する
+  registerDocumentResources(server)
+  registerDocumentPrompts(server)
 
-    const files = fs.readdirSync(folderPath)
-      .filter(f => f.toLowerCase().endsWith('.pdf'))
-      .map(f => path.join(folderPath, f))
-
-    for (const pdfPath of files) {
-      try {
-        const buffer = fs.readFileSync(pdfPath)
-        const parsed = await pdfParse(buffer)
-        
-        const docId = `pdf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        const filename = path.basename(pdfPath)
-        
-        const document: PDFDocument = {
-          id: docId,
-          filePath: pdfPath,
-          filename,
-          content: parsed.text,
-          metadata: {
-            pages: parsed.numpages || 0,
-            size: buffer.length,
-            createdAt: new Date(),
-            info: parsed.info
-          }
-        }
-        
-        pdfDocuments[docId] = document
-        registeredIds.push(docId)
-        
-        console.log(`PDF registered: ${filename} (${parsed.text.length} characters)`)
-      } catch (error) {
-        console.error(`Error loading PDF ${pdfPath}:`, error)
-      }
-    }
-    
-    console.log(`Registered ${registeredIds.length} PDF documents`)
-  } catch (error) {
-    console.error('Error registering PDFs from folder:', error)
-  }
-  
-  return registeredIds
+  return server
 }
 
-export function getPDFDocuments(): { [id: string]: PDFDocument } {
-  return pdfDocuments
+export async function createPDFMcpServer(): Promise<McpServer> {
+  if (pdfMcpServer) return pdfMcpServer
+
+  pdfMcpServer = buildPDFMcpServer()
+  console.log('PDF MCP Server created with search capabilities')
+  return pdfMcpServer
 }
 
 export function getPDFMcpServer(): McpServer | null {
@@ -0,0 +1,64 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+
+import { initDocumentAnnotations } from './documentAnnotations'
+import { ingestLibraryRoot, stopIngestionWorkers } from './ingestionQueue'
+import { getLibraryRoots, initLibraryConfig } from './libraryConfig'
+import { getDocumentCount } from './pdfDocumentStore'
+import { startPDFFolderWatcher, stopPDFFolderWatcher } from './pdfFolderWatcher'
+import { initPDFIndexStore, pruneMissingPDFs, savePDFIndexStore } from './pdfIndexStore'
+import { createPDFMcpServer } from './pdfMcpServer'
+
+// このフラグを付けて起動すると、ウィンドウを開かずに検索用MCPサーバーを標準入出力で公開する
+export const MCP_STDIO_FLAG = '--mcp-stdio'
+
+export function isMcpStdioMode(argv: string[] = process.argv): boolean {
+  return argv.includes(MCP_STDIO_FLAG)
+}
+
+// 標準出力はJSON-RPCのメッセージ専用のため、ログはすべて標準エラー出力へ送る
+export function redirectConsoleToStderr(): void {
+  console.log = console.error
+  console.info = console.error
+  console.debug = console.error
+  console.warn = console.error
+}
+
+// アプリと同じインデックス・ライブラリ設定・注釈を読み込み、pdf-search-serverを標準入出力に接続する。
+// 文書の取り込みは接続後にバックグラウンドで進めるため、起動直後は登録済みの文書が少ないことがある
+export async function runPDFMcpStdioServer(storeDir: string, onClose: () => void): Promise<void> {
+  initPDFIndexStore(storeDir)
+  initLibraryConfig(storeDir)
+  // タグ・メモはアプリで編集するため読み込むだけにする (ここで書き込むとアプリでの変更を上書きしてしまう)
+  initDocumentAnnotations(storeDir, { readOnly: true })
+
+  const server = await createPDFMcpServer()
+  let closed = false
+  const close = async (): Promise<void> => {
+    if (closed) return
+    closed = true
+    await stopPDFFolderWatcher()
+    await stopIngestionWorkers()
+    savePDFIndexStore()
+    onClose()
+  }
+
+  // StdioServerTransportは入力の終了を検知しないため、クライアントが切断したら自分で終了する
+  const transport = new StdioServerTransport()
+  transport.onclose = () => void close()
+  process.stdin.once('end', () => void close())
+  await server.connect(transport)
+  console.log('PDF search MCP server listening on stdio')
+
+  const roots = getLibraryRoots()
+  for (const root of roots) {
+    if (closed) return
+    await ingestLibraryRoot(root)
+  }
+  pruneMissingPDFs()
+  savePDFIndexStore()
+  console.log(`Loaded ${getDocumentCount()} documents for the MCP server`)
+
+  if (!closed) {
+    startPDFFolderWatcher(roots, (event) => console.log(`Library ${event.type}: ${event.filePath}`))
+  }
+}
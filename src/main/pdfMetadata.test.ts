@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+
+import { parsePDFDate } from './pdfMetadata'
+
+describe('parsePDFDate', () => {
+  it('parses a full PDF date with a time zone offset', () => {
+    expect(parsePDFDate("D:20240315093000+09'00'")?.toISOString()).toBe('2024-03-15T00:30:00.000Z')
+    expect(parsePDFDate("D:20240315093000-05'30'")?.toISOString()).toBe('2024-03-15T15:00:00.000Z')
+    expect(parsePDFDate('D:20240315093000Z')?.toISOString()).toBe('2024-03-15T09:30:00.000Z')
+  })
+
+  it('accepts offsets without apostrophes or minutes', () => {
+    expect(parsePDFDate('D:20240315093000+0900')?.toISOString()).toBe('2024-03-15T00:30:00.000Z')
+    expect(parsePDFDate('D:20240315093000+09')?.toISOString()).toBe('2024-03-15T00:30:00.000Z')
+  })
+
+  it('fills missing parts and treats dates without a time zone as UTC', () => {
+    expect(parsePDFDate('D:2024')?.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+    expect(parsePDFDate('D:202403')?.toISOString()).toBe('2024-03-01T00:00:00.000Z')
+    expect(parsePDFDate('20240315')?.toISOString()).toBe('2024-03-15T00:00:00.000Z')
+  })
+
+  it('parses ISO dates from XMP metadata', () => {
+    expect(parsePDFDate('2024-03-15T09:30:00+09:00')?.toISOString()).toBe(
+      '2024-03-15T00:30:00.000Z'
+    )
+  })
+
+  it('returns undefined for values that are not dates', () => {
+    expect(parsePDFDate(undefined)).toBeUndefined()
+    expect(parsePDFDate(20240315)).toBeUndefined()
+    expect(parsePDFDate('')).toBeUndefined()
+    expect(parsePDFDate('not a date')).toBeUndefined()
+  })
+})
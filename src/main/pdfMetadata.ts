@@ -0,0 +1,187 @@
+import {
+  FacetCount,
+  FacetField,
+  FacetSelection,
+  PDFDocument,
+  PDFDocumentInfo,
+  PDFDocumentInfoForRenderer,
+  SearchFacets,
+  SearchQueryNode,
+  SearchSort
+} from './types/pdfTypes'
+
+// ファセットごとに返す値の数
+const MAX_FACET_VALUES = 20
+
+// PDFの日付文字列 (D:YYYYMMDDHHmmSSOHH'mm') またはXMPのISO形式を解釈する
+export function parsePDFDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string') return undefined
+
+  const match = value
+    .trim()
+    .match(
+      /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?'?)?$/
+    )
+  if (match) {
+    const [
+      ,
+      year,
+      month = '01',
+      day = '01',
+      hour = '00',
+      minute = '00',
+      second = '00',
+      sign,
+      offsetHour,
+      offsetMinute
+    ] = match
+    const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+    // タイムゾーンが無い場合はUTCとみなす
+    const offset =
+      sign === '+' || sign === '-' ? (+(offsetHour ?? 0) * 60 + +(offsetMinute ?? 0)) * 60000 : 0
+    const date = new Date(sign === '-' ? utc + offset : utc - offset)
+    return isNaN(date.getTime()) ? undefined : date
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function readText(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+// Info辞書を優先し、無い項目はXMPメタデータで補う
+export function toDocumentInfo(
+  info: Record<string, unknown> = {},
+  xmp: Record<string, string> = {}
+): PDFDocumentInfo {
+  const keywords = readText(info.Keywords, xmp['pdf:keywords'])
+  return {
+    title: readText(info.Title, xmp['dc:title']),
+    author: readText(info.Author, xmp['dc:creator']),
+    subject: readText(info.Subject, xmp['dc:description']),
+    keywords: keywords
+      ? keywords
+          .split(/[,;]/)
+          .map((k) => k.trim())
+          .filter(Boolean)
+      : [],
+    creationDate:
+      parsePDFDate(info.CreationDate) ??
+      parsePDFDate(xmp['xap:createdate'] ?? xmp['xmp:createdate']),
+    modificationDate:
+      parsePDFDate(info.ModDate) ?? parsePDFDate(xmp['xap:modifydate'] ?? xmp['xmp:modifydate']),
+    producer: readText(info.Producer, xmp['pdf:producer']),
+    language: readText(xmp['dc:language'], info.Language)
+  }
+}
+
+export function toRendererDocumentInfo(info: PDFDocumentInfo): PDFDocumentInfoForRenderer {
+  return {
+    ...info,
+    creationDate: info.creationDate?.toISOString(),
+    modificationDate: info.modificationDate?.toISOString()
+  }
+}
+
+function sortValue(doc: PDFDocument, field: SearchSort['field']): string | number | undefined {
+  const { info } = doc.metadata
+  switch (field) {
+    case 'filename':
+      return doc.filename.toLowerCase()
+    case 'title':
+      return info.title?.toLowerCase()
+    case 'author':
+      return info.author?.toLowerCase()
+    case 'created':
+      return info.creationDate?.getTime()
+    case 'modified':
+      return info.modificationDate?.getTime()
+    case 'added':
+      return doc.metadata.createdAt.getTime()
+    case 'pages':
+      return doc.metadata.pages
+    default:
+      return undefined
+  }
+}
+
+// 文書情報で並べ替える比較関数。値の無い文書は並び順に関係なく末尾に置く
+export function compareDocuments(a: PDFDocument, b: PDFDocument, sort: SearchSort): number {
+  if (sort.field === 'relevance') return 0
+  const descending =
+    (sort.order ??
+      (['created', 'modified', 'added', 'pages'].includes(sort.field) ? 'desc' : 'asc')) === 'desc'
+
+  const left = sortValue(a, sort.field)
+  const right = sortValue(b, sort.field)
+  if (left === undefined || right === undefined) {
+    return left === right ? 0 : left === undefined ? 1 : -1
+  }
+  const order =
+    typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right))
+  return descending ? -order : order
+}
+
+function facetValues(doc: PDFDocument, field: FacetField): string[] {
+  const { info } = doc.metadata
+  switch (field) {
+    case 'author':
+      return info.author ? [info.author] : []
+    case 'year':
+      return info.creationDate ? [String(info.creationDate.getFullYear())] : []
+    case 'producer':
+      return info.producer ? [info.producer] : []
+    case 'language':
+      return info.language ? [info.language] : []
+    case 'keywords':
+      return info.keywords
+  }
+}
+
+// 文書情報の値ごとの件数を数える (件数の多い順、年は新しい順)
+export function computeFacets(docs: PDFDocument[]): SearchFacets {
+  const fields: FacetField[] = ['author', 'year', 'producer', 'language', 'keywords']
+  const facets = {} as SearchFacets
+
+  for (const field of fields) {
+    const counts = new Map<string, number>()
+    for (const doc of docs) {
+      for (const value of new Set(facetValues(doc, field))) {
+        counts.set(value, (counts.get(value) ?? 0) + 1)
+      }
+    }
+    const values: FacetCount[] = [...counts].map(([value, count]) => ({ value, count }))
+    values.sort((a, b) =>
+      field === 'year'
+        ? b.value.localeCompare(a.value)
+        : b.count - a.count || a.value.localeCompare(b.value)
+    )
+    facets[field] = values.slice(0, MAX_FACET_VALUES)
+  }
+  return facets
+}
+
+// ファセットで選択された値を絞り込み条件に変換する (同じ項目内はOR、項目間はAND)
+export function facetSelectionsToFilter(selections: FacetSelection[]): SearchQueryNode | undefined {
+  const groups = new Map<FacetField, SearchQueryNode[]>()
+  for (const { field, value } of selections) {
+    const node: SearchQueryNode =
+      field === 'year'
+        ? { type: 'created', from: value, to: value }
+        : { type: 'metadata', field, value, exact: true }
+    groups.set(field, [...(groups.get(field) ?? []), node])
+  }
+
+  const children = [...groups.values()].map((nodes) =>
+    nodes.length === 1 ? nodes[0] : { type: 'or' as const, children: nodes }
+  )
+  if (children.length === 0) return undefined
+  return children.length === 1 ? children[0] : { type: 'and', children }
+}
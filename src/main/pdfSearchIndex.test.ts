@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { indexDocument, removeFromSearchIndex, searchIndex, searchText } from './pdfSearchIndex'
+import { PDFDocument, SearchQueryNode } from './types/pdfTypes'
+
+// 索引と検索だけを確かめるため、PDFの読み込みライブラリは読み込まない
+vi.mock('pdf-parse', () => ({ default: vi.fn() }))
+
+const documents = new Map<string, PDFDocument>()
+const getDocument = (docId: string): PDFDocument | undefined => documents.get(docId)
+const options = { maxResults: 10, maxMatchesPerDocument: 5, contextLength: 20 }
+
+function addDocument(id: string, content: string): void {
+  const doc: PDFDocument = {
+    id,
+    filePath: `/library/${id}.txt`,
+    filename: `${id}.txt`,
+    format: 'text',
+    rootPath: '/library',
+    content,
+    pageOffsets: [0],
+    outline: { source: 'detected', sections: [] },
+    metadata: { pages: 1, size: content.length, createdAt: new Date(0), info: { keywords: [] } }
+  }
+  documents.set(id, doc)
+  indexDocument(doc)
+}
+
+function search(query: SearchQueryNode, mode?: 'query' | 'fuzzy', maxEdits?: number): string[] {
+  return searchIndex(query, getDocument, { ...options, mode, maxEdits }).hits.map(
+    (hit) => hit.document.id
+  )
+}
+
+const term = (value: string): SearchQueryNode => ({ type: 'term', value })
+
+beforeEach(() => {
+  for (const id of documents.keys()) removeFromSearchIndex(id)
+  documents.clear()
+})
+
+describe('BM25 ranking', () => {
+  it('ranks documents with more occurrences of the term first', () => {
+    addDocument('once', 'neural models learn from data and more data')
+    addDocument('twice', 'neural models learn from neural data and data')
+    addDocument('none', 'decision trees learn from data and more data')
+
+    const page = searchIndex(term('neural'), getDocument, options)
+    expect(page.hits.map((hit) => hit.document.id)).toEqual(['twice', 'once'])
+    expect(page.hits[0].score).toBeGreaterThan(page.hits[1].score)
+    expect(page.totalHits).toBe(2)
+  })
+
+  it('ranks shorter documents first when the term occurs equally often', () => {
+    addDocument('long', 'neural models learn from data and then they are tested on more data')
+    addDocument('short', 'neural models learn')
+
+    expect(search(term('neural'))).toEqual(['short', 'long'])
+  })
+
+  it('weights rare terms higher than common ones', () => {
+    addDocument('common', 'data data data')
+    addDocument('rare', 'data transformer')
+    addDocument('other', 'data only')
+
+    expect(search({ type: 'or', children: [term('data'), term('transformer')] })[0]).toBe('rare')
+  })
+
+  it('drops removed documents from the index', () => {
+    addDocument('kept', 'neural network')
+    addDocument('removed', 'neural network')
+    removeFromSearchIndex('removed')
+    documents.delete('removed')
+
+    expect(search(term('neural'))).toEqual(['kept'])
+  })
+})
+
+describe('phrase search', () => {
+  it('matches the words only when they are adjacent and in order', () => {
+    addDocument('phrase', 'a deep neural network was trained')
+    addDocument('reversed', 'the network of neural cells')
+    addDocument('apart', 'a neural model and a network')
+
+    expect(search({ type: 'phrase', value: 'neural network' })).toEqual(['phrase'])
+    expect(search({ type: 'and', children: [term('neural'), term('network')] }).sort()).toEqual([
+      'apart',
+      'phrase',
+      'reversed'
+    ])
+  })
+
+  it('ignores case and line breaks and highlights the whole phrase', () => {
+    addDocument('wrapped', 'about Neural\nNetworks and Neural Network training')
+
+    const [hit] = searchIndex(
+      { type: 'phrase', value: 'neural network' },
+      getDocument,
+      options
+    ).hits
+    expect(hit.totalMatches).toBe(2)
+    expect(hit.matches.map((match) => match.position)).toEqual([6, 26])
+    const [first] = hit.matches
+    const [range] = first.highlights
+    expect(first.context.slice(range.start, range.end)).toBe('Neural\nNetwork')
+  })
+})
+
+describe('fuzzy search', () => {
+  it('matches words within the allowed edit distance', () => {
+    addDocument('typo', 'we receive the scanned documents')
+
+    // 隣接文字の入れ替えは1文字の編集として扱う
+    expect(search(term('recieve'), 'fuzzy', 1)).toEqual(['typo'])
+    expect(search(term('recxive'), 'fuzzy', 1)).toEqual(['typo'])
+    expect(search(term('rexxive'), 'fuzzy', 1)).toEqual([])
+    expect(search(term('rexxive'), 'fuzzy', 2)).toEqual(['typo'])
+    expect(search(term('recieve'))).toEqual([])
+  })
+
+  it('allows fewer edits for short words', () => {
+    addDocument('short', 'the cat sat on a mat')
+
+    expect(search(term('cot'), 'fuzzy', 2)).toEqual(['short'])
+    expect(search(term('cxx'), 'fuzzy', 2)).toEqual([])
+    expect(search(term('on'), 'fuzzy', 2)).toEqual(['short'])
+    expect(search(term('of'), 'fuzzy', 2)).toEqual([])
+  })
+})
+
+describe('literal search', () => {
+  it('searches for special characters without treating them as a pattern', () => {
+    addDocument('cpp', 'written in C++ and C')
+    addDocument('c', 'written in C')
+
+    const page = searchText('C++', 'literal', getDocument, options)
+    expect(page.hits.map((hit) => hit.document.id)).toEqual(['cpp'])
+    expect(page.hits[0].matches[0].position).toBe(11)
+  })
+})
@@ -0,0 +1,586 @@
+import { getDocumentAnnotations } from './documentAnnotations'
+import { compareDocuments, computeFacets, toRendererDocumentInfo } from './pdfMetadata'
+import { pageAtPosition } from './pdfTextExtractor'
+import { compileSearchRegExp, createMatchScanner, escapeRegExp } from './safeRegExp'
+import {
+  isCJKTerm,
+  NormalizedText,
+  normalizeForSearch,
+  tokenize,
+  tokenizeNormalized
+} from './searchTokenizer'
+import {
+  HighlightRange,
+  PDFDocument,
+  RankedSearchHit,
+  RankedSearchPage,
+  SearchMatch,
+  SearchOptions,
+  SearchQueryNode,
+  SearchResultForRenderer
+} from './types/pdfTypes'
+
+// 表示件数などの既定値は検索の入口 (pdfDocumentStore) で補完する
+export type ResolvedSearchOptions = SearchOptions &
+  Required<Pick<SearchOptions, 'maxResults' | 'maxMatchesPerDocument' | 'contextLength'>>
+
+// BM25のパラメータ (一般的な既定値)
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// term -> docId -> 出現位置 ([start, end, start, end, ...] の平坦な配列)
+const postings = new Map<string, Map<string, number[]>>()
+// docId -> トークン数
+const docLengths = new Map<string, number>()
+// docId -> 含まれる語 (削除時に転置リストを辿るため)
+const docTerms = new Map<string, string[]>()
+// docId -> 正規化した本文と元テキストへの位置対応 (フレーズ検索で毎回正規化しないため)
+const normalizedContents = new Map<string, NormalizedText>()
+let totalTokens = 0
+
+// 1文字の漢字・かなはbigramの一部として索引されているため、その文字で始まる・終わる語に展開する
+// (連続の末尾の文字は後ろ側にしか現れない。例: 「本」は「日本」で一致させる)
+function expandQueryTerm(term: string): string[] {
+  if (term.length !== 1 || !isCJKTerm(term)) return [term]
+  return [...postings.keys()].filter(
+    (key) => (key.startsWith(term) || key.endsWith(term)) && isCJKTerm(key)
+  )
+}
+
+// 語の長さに応じた許容編集距離 (短い語ほど誤一致しやすいため抑える)
+function allowedEdits(term: string, maxEdits: number): number {
+  const length = [...term].length
+  return Math.min(maxEdits, length < 3 ? 0 : length < 6 ? 1 : 2)
+}
+
+// 編集距離 (隣接文字の入れ替えも1とする) がlimit以下ならその距離を、超える場合はlimit + 1を返す
+function boundedEditDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > limit) return limit + 1
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 誤字やOCRの読み取り揺れを許容し、編集距離の近い索引語に展開する (漢字・かなのbigramは対象外)
+function expandFuzzyTerm(term: string, maxEdits: number): string[] {
+  const limit = allowedEdits(term, maxEdits)
+  if (limit === 0 || isCJKTerm(term)) return expandQueryTerm(term)
+  return [...postings.keys()].filter((key) => boundedEditDistance(term, key, limit) <= limit)
+}
+
+// 登録時に転置インデックスを構築する。再登録の場合は古いエントリを置き換える
+export function indexDocument(doc: PDFDocument): void {
+  removeFromSearchIndex(doc.id)
+
+  const normalized = normalizeForSearch(doc.content)
+  const tokens = tokenizeNormalized(normalized)
+  const positionsByTerm = new Map<string, number[]>()
+  for (const token of tokens) {
+    let positions = positionsByTerm.get(token.term)
+    if (!positions) {
+      positions = []
+      positionsByTerm.set(token.term, positions)
+    }
+    positions.push(token.start, token.end)
+  }
+
+  for (const [term, positions] of positionsByTerm) {
+    let docs = postings.get(term)
+    if (!docs) {
+      docs = new Map()
+      postings.set(term, docs)
+    }
+    docs.set(doc.id, positions)
+  }
+
+  docTerms.set(doc.id, [...positionsByTerm.keys()])
+  normalizedContents.set(doc.id, normalized)
+  docLengths.set(doc.id, tokens.length)
+  totalTokens += tokens.length
+}
+
+export function removeFromSearchIndex(docId: string): void {
+  const terms = docTerms.get(docId)
+  if (!terms) return
+
+  for (const term of terms) {
+    const docs = postings.get(term)
+    if (!docs) continue
+    docs.delete(docId)
+    if (docs.size === 0) postings.delete(term)
+  }
+
+  totalTokens -= docLengths.get(docId) ?? 0
+  docTerms.delete(docId)
+  docLengths.delete(docId)
+  normalizedContents.delete(docId)
+}
+
+// 語を構成するトークン (展開後) ごとの該当文書を求め、すべてのトークンを含む文書を返す
+function matchTokens(
+  value: string,
+  expandTerm: (term: string) => string[]
+): { docs: Set<string>; terms: string[] } {
+  const tokens = tokenize(value)
+  const terms: string[] = []
+  let docs: Set<string> | null = null
+
+  for (const token of tokens) {
+    const expanded = expandTerm(token.term)
+    terms.push(...expanded)
+    const tokenDocs = new Set<string>()
+    for (const term of expanded) {
+      for (const docId of postings.get(term)?.keys() ?? []) tokenDocs.add(docId)
+    }
+    docs = docs ? intersect(docs, tokenDocs) : tokenDocs
+  }
+  return { docs: docs ?? new Set(), terms }
+}
+
+function isTokenlessTerm(node: SearchQueryNode): boolean {
+  return (node.type === 'term' || node.type === 'phrase') && tokenize(node.value).length === 0
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter((docId) => b.has(docId)))
+}
+
+// ファイル名フィルタの * と ? を正規表現に変換する
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/([*?])/)
+    .map((part) => (part === '*' ? '.*' : part === '?' ? '.' : escapeRegExp(part)))
+    .join('')
+  return new RegExp(`^${source}$`)
+}
+
+// 正規化後の本文でフレーズを探し、元テキスト上の位置を返す (語の間の空白・改行は区別しない)
+function findPhraseSpans(doc: PDFDocument, phrase: string): [number, number][] {
+  const words = normalizeForSearch(phrase).text.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+
+  const { text, offsets } = normalizedContents.get(doc.id) ?? normalizeForSearch(doc.content)
+  const pattern = new RegExp(words.map(escapeRegExp).join('\\s*'), 'g')
+  const spans: [number, number][] = []
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0
+    if (match[0].length === 0) break
+    spans.push([offsets[start], offsets[start + match[0].length]])
+  }
+  return spans
+}
+
+// 登録日フィルタの期間 (YYYY / YYYY-MM / YYYY-MM-DD) の開始・終了時刻
+function periodBounds(value: string): { start: number; end: number } {
+  const [year, month, day] = value.split('-').map(Number)
+  const start = new Date(year, (month ?? 1) - 1, day ?? 1)
+  const end = day
+    ? new Date(year, month - 1, day + 1)
+    : month
+      ? new Date(year, month, 1)
+      : new Date(year + 1, 0, 1)
+  return { start: start.getTime(), end: end.getTime() }
+}
+
+// 部分一致 (大文字小文字を区別しない)。* と ? を含む場合は全体をワイルドカードで照合する
+function matchesPattern(text: string, pattern: string): boolean {
+  const value = text.toLowerCase()
+  const lowered = pattern.toLowerCase()
+  return /[*?]/.test(lowered) ? wildcardToRegExp(lowered).test(value) : value.includes(lowered)
+}
+
+function matchesDateRange(date: Date | undefined, from?: string, to?: string): boolean {
+  if (!date) return false
+  const time = date.getTime()
+  return (!from || time >= periodBounds(from).start) && (!to || time < periodBounds(to).end)
+}
+
+// タグ・コレクション名は完全一致 (大文字小文字を区別しない)。* と ? を含む場合はワイルドカードで照合する
+function matchesLabel(labels: string[], value: string): boolean {
+  return labels.some((label) =>
+    /[*?]/.test(value) ? matchesPattern(label, value) : label.toLowerCase() === value.toLowerCase()
+  )
+}
+
+function matchesFilter(doc: PDFDocument, node: SearchQueryNode): boolean {
+  const { info } = doc.metadata
+  switch (node.type) {
+    case 'filename':
+      return matchesPattern(doc.filename, node.pattern)
+    case 'metadata': {
+      const values = node.field === 'keywords' ? info.keywords : [info[node.field]]
+      return values.some((value) =>
+        value === undefined
+          ? false
+          : node.exact
+            ? value.toLowerCase() === node.value.toLowerCase()
+            : matchesPattern(value, node.value)
+      )
+    }
+    case 'pages':
+      return (
+        (node.min === undefined || doc.metadata.pages >= node.min) &&
+        (node.max === undefined || doc.metadata.pages <= node.max)
+      )
+    case 'added':
+      return matchesDateRange(doc.metadata.createdAt, node.from, node.to)
+    case 'created':
+      return matchesDateRange(info.creationDate, node.from, node.to)
+    case 'modified':
+      return matchesDateRange(info.modificationDate, node.from, node.to)
+    case 'tag':
+      return matchesLabel(getDocumentAnnotations(doc.id).tags, node.value)
+    case 'collection':
+      return matchesLabel(getDocumentAnnotations(doc.id).collections, node.value)
+    default:
+      return false
+  }
+}
+
+interface QueryContext {
+  getDocument: (docId: string) => PDFDocument | undefined
+  allDocs: Set<string>
+  // 検索語を索引語に展開する (fuzzyモードでは編集距離の近い語を含む)
+  expandTerm: (term: string) => string[]
+  // スコア計算に使う語 (NOTの内側を除く)
+  scoringTerms: Set<string>
+  // 一致箇所として返す語。フレーズの語はスコア計算にだけ使い、一致箇所はphraseSpansから取る
+  matchTerms: Set<string>
+  // フレーズの一致位置 (docId -> 位置)
+  phraseSpans: Map<string, [number, number][]>
+}
+
+// 構文木を評価して該当する文書の集合を返す
+function evaluate(node: SearchQueryNode, context: QueryContext, negated: boolean): Set<string> {
+  switch (node.type) {
+    case 'term': {
+      const { docs, terms } = matchTokens(node.value, context.expandTerm)
+      if (!negated) {
+        terms.forEach((term) => {
+          context.scoringTerms.add(term)
+          context.matchTerms.add(term)
+        })
+      }
+      return docs
+    }
+    case 'phrase': {
+      const { docs: candidates, terms } = matchTokens(node.value, context.expandTerm)
+      const docs = new Set<string>()
+      for (const docId of candidates) {
+        const doc = context.getDocument(docId)
+        const spans = doc ? findPhraseSpans(doc, node.value) : []
+        if (spans.length === 0) continue
+        docs.add(docId)
+        if (!negated) {
+          context.phraseSpans.set(docId, [...(context.phraseSpans.get(docId) ?? []), ...spans])
+        }
+      }
+      if (!negated) terms.forEach((term) => context.scoringTerms.add(term))
+      return docs
+    }
+    case 'and': {
+      // 記号だけの語 (- や & など) は索引語を持たないため、条件から外して他の語の結果を残す
+      const children = node.children.filter((child) => !isTokenlessTerm(child))
+      if (children.length === 0) return new Set()
+      return children
+        .map((child) => evaluate(child, context, negated))
+        .reduce((acc, docs) => intersect(acc, docs))
+    }
+    case 'or': {
+      const docs = new Set<string>()
+      for (const child of node.children) {
+        evaluate(child, context, negated).forEach((docId) => docs.add(docId))
+      }
+      return docs
+    }
+    case 'not': {
+      const excluded = evaluate(node.child, context, !negated)
+      return new Set([...context.allDocs].filter((docId) => !excluded.has(docId)))
+    }
+    default:
+      return new Set(
+        [...context.allDocs].filter((docId) => {
+          const doc = context.getDocument(docId)
+          return doc ? matchesFilter(doc, node) : false
+        })
+      )
+  }
+}
+
+function createQueryContext(
+  getDocument: (docId: string) => PDFDocument | undefined,
+  expandTerm: (term: string) => string[] = expandQueryTerm
+): QueryContext {
+  return {
+    getDocument,
+    allDocs: new Set(docLengths.keys()),
+    expandTerm,
+    scoringTerms: new Set(),
+    matchTerms: new Set(),
+    phraseSpans: new Map()
+  }
+}
+
+// クエリに該当する文書IDを返す (スコア計算・文脈の切り出しは行わない)
+export function matchDocumentIds(
+  query: SearchQueryNode,
+  getDocument: (docId: string) => PDFDocument | undefined
+): Set<string> {
+  return evaluate(query, createQueryContext(getDocument), false)
+}
+
+function bm25Weight(tf: number, documentFrequency: number, docId: string): number {
+  const documentCount = docLengths.size
+  const averageLength = totalTokens / documentCount || 1
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+  const length = docLengths.get(docId) ?? 0
+  const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength)
+  return (idf * tf * (BM25_K1 + 1)) / norm
+}
+
+// クエリを評価し、該当文書をBM25スコア順に並べて出現位置とともに返す
+export function searchIndex(
+  query: SearchQueryNode,
+  getDocument: (docId: string) => PDFDocument | undefined,
+  options: ResolvedSearchOptions
+): RankedSearchPage {
+  if (docLengths.size === 0) return emptySearchPage(options.offset)
+
+  const { mode = 'query', maxEdits = 1, filter } = options
+  const context = createQueryContext(
+    getDocument,
+    mode === 'fuzzy' ? (term) => expandFuzzyTerm(term, maxEdits) : expandQueryTerm
+  )
+  const matchedDocs = evaluate(
+    filter ? { type: 'and', children: [query, filter] } : query,
+    context,
+    false
+  )
+
+  const scores = new Map<string, number>()
+  const hitPositions = new Map<string, number[][]>()
+  for (const docId of matchedDocs) {
+    scores.set(docId, 0)
+    hitPositions.set(docId, [(context.phraseSpans.get(docId) ?? []).flatMap((span) => span)])
+  }
+
+  for (const term of context.scoringTerms) {
+    const docs = postings.get(term)
+    if (!docs) continue
+
+    for (const [docId, positions] of docs) {
+      if (!matchedDocs.has(docId)) continue
+      scores.set(
+        docId,
+        (scores.get(docId) ?? 0) + bm25Weight(positions.length / 2, docs.size, docId)
+      )
+      if (context.matchTerms.has(term)) hitPositions.get(docId)?.push(positions)
+    }
+  }
+
+  return rankHits(scores, hitPositions, getDocument, options)
+}
+
+// literal/regexモードの検索。索引は使わず全文書の本文を走査し、一致数をBM25の出現頻度として扱う
+export function searchText(
+  query: string,
+  mode: 'literal' | 'regex',
+  getDocument: (docId: string) => PDFDocument | undefined,
+  options: ResolvedSearchOptions
+): RankedSearchPage {
+  if (docLengths.size === 0) return emptySearchPage(options.offset)
+
+  const scan = createMatchScanner(compileSearchRegExp(query, mode))
+  const candidates = options.filter
+    ? matchDocumentIds(options.filter, getDocument)
+    : docLengths.keys()
+  const positionsByDoc = new Map<string, number[]>()
+  for (const docId of candidates) {
+    const doc = getDocument(docId)
+    if (!doc) continue
+    const positions = scan(doc.content)
+    if (positions.length > 0) positionsByDoc.set(docId, positions)
+  }
+
+  const scores = new Map<string, number>()
+  const hitPositions = new Map<string, number[][]>()
+  for (const [docId, positions] of positionsByDoc) {
+    scores.set(docId, bm25Weight(positions.length / 2, positionsByDoc.size, docId))
+    hitPositions.set(docId, [positions])
+  }
+
+  return rankHits(scores, hitPositions, getDocument, options)
+}
+
+export function emptySearchPage(offset: number = 0): RankedSearchPage {
+  return {
+    hits: [],
+    totalHits: 0,
+    totalMatches: 0,
+    offset,
+    nextCursor: null,
+    facets: computeFacets([])
+  }
+}
+
+function rankHits(
+  scores: Map<string, number>,
+  hitPositions: Map<string, number[][]>,
+  getDocument: (docId: string) => PDFDocument | undefined,
+  options: ResolvedSearchOptions
+): RankedSearchPage {
+  const {
+    maxResults,
+    maxMatchesPerDocument,
+    contextLength,
+    offset = 0,
+    docId,
+    matchOffset = 0,
+    sort
+  } = options
+
+  // 並び順の指定が無い場合はスコア順。同じ値の場合はスコア順、さらに同じならファイル名順
+  const byField = (a: string, b: string): number => {
+    const left = getDocument(a)
+    const right = getDocument(b)
+    return left && right && sort ? compareDocuments(left, right, sort) : 0
+  }
+  const ranked = [...scores.entries()].sort(
+    (a, b) =>
+      byField(a[0], b[0]) ||
+      b[1] - a[1] ||
+      (getDocument(a[0])?.filename ?? '').localeCompare(getDocument(b[0])?.filename ?? '')
+  )
+
+  // 総数は表示するページに関係なく該当文書すべてで数える
+  const spansByDoc = new Map<string, [number, number][]>()
+  let totalMatches = 0
+  for (const [id] of ranked) {
+    const spans = mergeSpans(hitPositions.get(id) ?? [])
+    spansByDoc.set(id, spans)
+    totalMatches += spans.length
+  }
+
+  // 文書を指定した場合はその文書の一致箇所だけをページ送りする
+  const pageEntries = docId
+    ? ranked.filter(([id]) => id === docId)
+    : ranked.slice(offset, offset + maxResults)
+  const firstMatch = docId ? matchOffset : 0
+  const hits: RankedSearchHit[] = []
+
+  // 文脈の切り出しは表示するページの文書だけ行う
+  for (const [id, score] of pageEntries) {
+    const doc = getDocument(id)
+    if (!doc) continue
+
+    const spans = spansByDoc.get(id) ?? []
+    hits.push({
+      document: doc,
+      score,
+      totalMatches: spans.length,
+      matchOffset: firstMatch,
+      matches: spans
+        .slice(firstMatch, firstMatch + maxMatchesPerDocument)
+        .map((span) => buildMatch(doc, span, spans, contextLength)),
+      nextMatchesCursor: null
+    })
+  }
+
+  return {
+    hits,
+    totalHits: ranked.length,
+    totalMatches,
+    offset: docId ? 0 : offset,
+    nextCursor: null,
+    facets: computeFacets(ranked.flatMap(([id]) => getDocument(id) ?? []))
+  }
+}
+
+// 語ごとの出現位置を文書内の順序でひとつにまとめる。重なる位置 (連続するbigram) は結合する
+function mergeSpans(positionLists: number[][]): [number, number][] {
+  const spans: [number, number][] = []
+  for (const positions of positionLists) {
+    for (let i = 0; i < positions.length; i += 2) {
+      spans.push([positions[i], positions[i + 1]])
+    }
+  }
+  spans.sort((a, b) => a[0] - b[0])
+
+  const merged: [number, number][] = []
+  for (const span of spans) {
+    const last = merged[merged.length - 1]
+    if (last && span[0] < last[1]) {
+      last[1] = Math.max(last[1], span[1])
+    } else {
+      merged.push([span[0], span[1]])
+    }
+  }
+  return merged
+}
+
+function buildMatch(
+  doc: PDFDocument,
+  span: [number, number],
+  allSpans: [number, number][],
+  contextLength: number
+): SearchMatch {
+  const [start, end] = span
+  const contextStart = Math.max(0, start - contextLength)
+  const contextEnd = Math.min(doc.content.length, end + contextLength)
+  const raw = doc.content.slice(contextStart, contextEnd)
+  const context = raw.trim()
+  // 前後の空白を除いたcontextの先頭・末尾の本文上の位置
+  const base = contextStart + (raw.length - raw.trimStart().length)
+  const limit = base + context.length
+
+  // 文脈内に含まれるすべての一致箇所をcontext内の位置で返す (端で切れる一致は切り詰める)
+  const highlights: HighlightRange[] = []
+  for (const [hitStart, hitEnd] of allSpans) {
+    if (hitEnd <= base || hitStart >= limit) continue
+    highlights.push({ start: Math.max(hitStart, base) - base, end: Math.min(hitEnd, limit) - base })
+  }
+
+  return {
+    position: start,
+    page: pageAtPosition(doc.pageOffsets, start),
+    context,
+    highlights
+  }
+}
+
+export function toRendererSearchResult(hit: RankedSearchHit): SearchResultForRenderer {
+  const doc = hit.document
+  return {
+    filename: doc.filename,
+    docId: doc.id,
+    filePath: doc.filePath,
+    format: doc.format,
+    score: hit.score,
+    totalMatches: hit.totalMatches,
+    matchOffset: hit.matchOffset,
+    matches: hit.matches,
+    nextMatchesCursor: hit.nextMatchesCursor,
+    metadata: {
+      pages: doc.metadata.pages,
+      size: doc.metadata.size,
+      createdAt: doc.metadata.createdAt.toISOString(),
+      info: toRendererDocumentInfo(doc.metadata.info)
+    }
+  }
+}
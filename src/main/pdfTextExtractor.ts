@@ -0,0 +1,157 @@
+import pdfParse from 'pdf-parse'
+
+import { ExtractedDocument, OutlineHeading } from './types/pdfTypes'
+
+// pdf-parse標準のrender_pageと同じ規則で1ページ分のテキストを組み立てる
+async function renderPageText(pageData: {
+  getTextContent: (options: object) => Promise<{ items: { str: string; transform: number[] }[] }>
+}): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  })
+
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += item.str
+    } else {
+      text += '\n' + item.str
+    }
+    lastY = item.transform[5]
+  }
+  return text
+}
+
+// pdf.jsのWorkerTransportのうち、しおりの読み取りに使う部分
+interface OutlineTransport {
+  getOutline: () => Promise<OutlineNode[] | null>
+  getDestination: (name: string) => Promise<unknown[] | null>
+  getPageIndex: (ref: object) => Promise<number>
+}
+
+interface OutlineNode {
+  title: string
+  dest: string | unknown[] | null
+  items: OutlineNode[]
+}
+
+// しおりのリンク先 (名前付きまたは明示的な宛先) のページ番号 (1始まり)
+async function destinationPage(
+  transport: OutlineTransport,
+  dest: OutlineNode['dest']
+): Promise<number | undefined> {
+  const explicit = typeof dest === 'string' ? await transport.getDestination(dest) : dest
+  const target = Array.isArray(explicit) ? explicit[0] : undefined
+  if (typeof target === 'number') return target + 1
+  if (target && typeof target === 'object') return (await transport.getPageIndex(target)) + 1
+  return undefined
+}
+
+// PDFに埋め込まれたしおりを階層付きの見出しとして読む。ページに結び付かない項目 (URLなど) は除く
+async function readOutline(transport: OutlineTransport): Promise<OutlineHeading[]> {
+  const headings: OutlineHeading[] = []
+  const visit = async (nodes: OutlineNode[] | null, level: number): Promise<void> => {
+    for (const node of nodes ?? []) {
+      const page = await destinationPage(transport, node.dest).catch(() => undefined)
+      const title = node.title?.replace(/\s+/g, ' ').trim()
+      if (title && page) headings.push({ title, level, page })
+      await visit(node.items, level + 1)
+    }
+  }
+
+  try {
+    await visit(await transport.getOutline(), 1)
+  } catch (error) {
+    console.warn('Could not read PDF outline:', error)
+  }
+  return headings
+}
+
+// ページごとにテキストを抽出し、ページ開始位置の表を作る
+export async function extractPDFText(buffer: Buffer): Promise<ExtractedDocument> {
+  const pageTexts: string[] = []
+  let outline: OutlineHeading[] = []
+
+  const parsed = await pdfParse(buffer, {
+    pagerender: async (pageData) => {
+      // pdf-parseは文書を返さず解析後に破棄するため、しおりは最初のページの描画中に読む
+      if (pageData.pageIndex === 0 && pageData.transport) {
+        outline = await readOutline(pageData.transport)
+      }
+      const text = await renderPageText(pageData)
+      // 描画に失敗したページは空文字になるため、ページ番号で位置を合わせる
+      pageTexts[pageData.pageIndex] = text
+      return text
+    }
+  })
+
+  return {
+    ...joinPages(Array.from({ length: parsed.numpages || 0 }, (_, i) => pageTexts[i] ?? '')),
+    info: parsed.info ?? undefined,
+    xmp: readXmp(parsed.metadata),
+    outline
+  }
+}
+
+// pdf-parseのtextと同じく各ページを"\n\n"で前置して連結する (PDF以外の形式も同じ規則で組み立てる)
+export function joinPages(
+  pages: string[]
+): Pick<ExtractedDocument, 'text' | 'pageOffsets' | 'numpages'> {
+  let text = ''
+  const pageOffsets: number[] = []
+  for (const page of pages) {
+    text += '\n\n'
+    pageOffsets.push(text.length)
+    text += page
+  }
+  return { text, pageOffsets, numpages: pages.length }
+}
+
+// pdf.jsのMetadataオブジェクトから文字列の項目だけを取り出す
+function readXmp(
+  metadata: { getAll?: () => Record<string, unknown> } | null
+): Record<string, string> | undefined {
+  if (typeof metadata?.getAll !== 'function') return undefined
+  const xmp: Record<string, string> = {}
+  for (const [key, value] of Object.entries(metadata.getAll())) {
+    if (typeof value === 'string') xmp[key] = value
+  }
+  return xmp
+}
+
+// 文字位置が含まれるページ番号 (1始まり) を返す
+export function pageAtPosition(pageOffsets: number[], position: number): number {
+  let low = 0
+  let high = pageOffsets.length - 1
+  let page = 0
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (pageOffsets[mid] <= position) {
+      page = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return page + 1
+}
+
+// ページ範囲 (1始まり、両端を含む) の文字位置を返す
+export function pageRangeBounds(
+  pageOffsets: number[],
+  contentLength: number,
+  startPage: number,
+  endPage: number = startPage
+): { start: number; end: number } | null {
+  if (pageOffsets.length === 0) return null
+  const first = Math.max(1, startPage)
+  const last = Math.min(pageOffsets.length, endPage)
+  if (first > last) return null
+
+  const start = pageOffsets[first - 1]
+  // 次ページの"\n\n"区切りの手前まで
+  const end = last < pageOffsets.length ? pageOffsets[last] - 2 : contentLength
+  return { start, end }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { compileSearchRegExp, createMatchScanner, escapeRegExp } from './safeRegExp'
+
+describe('compileSearchRegExp', () => {
+  it('escapes the query in literal mode', () => {
+    expect(escapeRegExp('C++ (v2)')).toBe('C\\+\\+ \\(v2\\)')
+    expect(compileSearchRegExp('C++', 'literal').test('c++ code')).toBe(true)
+    expect(() => compileSearchRegExp('(', 'literal')).not.toThrow()
+  })
+
+  it('compiles a case-insensitive pattern in regex mode', () => {
+    const pattern = compileSearchRegExp('colou?r', 'regex')
+    expect(pattern.flags).toBe('gi')
+    expect('Color and COLOUR'.match(pattern)).toEqual(['Color', 'COLOUR'])
+  })
+
+  it('rejects patterns that can backtrack exponentially', () => {
+    expect(() => compileSearchRegExp('(a+)+b', 'regex')).toThrow('nested quantifiers')
+    expect(() => compileSearchRegExp('(x*)*', 'regex')).toThrow('nested quantifiers')
+    expect(() => compileSearchRegExp('(a)\\1', 'regex')).toThrow('backreferences')
+    expect(() => compileSearchRegExp('a'.repeat(201), 'regex')).toThrow('too long')
+    expect(() => compileSearchRegExp('[(a+)]+', 'regex')).not.toThrow()
+  })
+
+  it('keeps syntax errors of the pattern', () => {
+    expect(() => compileSearchRegExp('(', 'regex')).toThrow(SyntaxError)
+  })
+})
+
+describe('createMatchScanner', () => {
+  it('returns the start and end of each match and skips empty matches', () => {
+    const scan = createMatchScanner(compileSearchRegExp('ab|x*', 'regex'))
+    expect(scan('ab cab')).toEqual([0, 2, 4, 6])
+    expect(scan('xx')).toEqual([0, 2])
+  })
+
+  it('stops a search that runs past the time limit', () => {
+    // 入れ子の量指定子を含まなくても指数的にバックトラックするパターン
+    const scan = createMatchScanner(compileSearchRegExp('(a|a)*b', 'regex'), 50)
+    const startedAt = Date.now()
+    expect(() => scan('a'.repeat(40))).toThrow('exceeded the 50ms time limit')
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+  })
+
+  it('shares the time limit across documents', () => {
+    const scan = createMatchScanner(compileSearchRegExp('a', 'regex'), 0)
+    expect(() => scan('a')).toThrow('exceeded the 0ms time limit')
+  })
+})
@@ -0,0 +1,103 @@
+import vm from 'vm'
+
+// 正規表現モードで受け付けるパターンの最大長
+const MAX_PATTERN_LENGTH = 200
+// 1回の検索で正規表現の実行に使える時間の合計
+const REGEX_TIME_LIMIT_MS = 1000
+// 1文書から収集する一致数の上限 (. のように何にでも一致するパターン対策)
+const MAX_MATCHES_PER_DOCUMENT = 1000
+
+// 一致位置を [start, end, start, end, ...] で返す。実行時間はvmのtimeoutで打ち切る
+const scanScript = new vm.Script(`(() => {
+  const positions = []
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue
+    positions.push(match.index, match.index + match[0].length)
+    if (positions.length >= limit * 2) break
+  }
+  return positions
+})()`)
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 指数的なバックトラックを起こしやすい構文 (量指定子の入れ子・後方参照) を検出する
+function findUnsafeConstruct(source: string): string | null {
+  // 各グループの内側に量指定子があるか
+  const stack: boolean[] = []
+  let quantified = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (char === '\\') {
+      const next = source[i + 1] ?? ''
+      if (/[1-9k]/.test(next)) return 'backreferences are not supported'
+      i++
+    } else if (char === '[') {
+      // 文字クラスの中は量指定子として扱わない
+      i++
+      while (i < source.length && source[i] !== ']') {
+        if (source[i] === '\\') i++
+        i++
+      }
+    } else if (char === '(') {
+      stack.push(quantified)
+      quantified = false
+    } else if (char === ')') {
+      const inner = quantified
+      quantified = (stack.pop() ?? false) || inner
+      if (inner && /[*+{]/.test(source[i + 1] ?? '')) {
+        return 'nested quantifiers such as (a+)+ are not supported'
+      }
+    } else if (char === '*' || char === '+' || char === '{') {
+      quantified = true
+    }
+  }
+  return null
+}
+
+// literalは入力をそのまま、regexは検証したうえで大文字小文字を区別しない正規表現にする
+export function compileSearchRegExp(query: string, mode: 'literal' | 'regex'): RegExp {
+  if (mode === 'literal') {
+    return new RegExp(escapeRegExp(query), 'gi')
+  }
+
+  if (query.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Regular expression is too long (max ${MAX_PATTERN_LENGTH} characters)`)
+  }
+  const unsafe = findUnsafeConstruct(query)
+  if (unsafe) {
+    throw new Error(`Regular expression rejected: ${unsafe}`)
+  }
+  // 構文エラーはSyntaxError (Invalid regular expression: ...) のまま返す
+  return new RegExp(query, 'gi')
+}
+
+// 同じパターンで複数の文書を走査する関数を返す。合計の実行時間が上限を超えるとエラーにする
+export function createMatchScanner(
+  pattern: RegExp,
+  timeLimitMs: number = REGEX_TIME_LIMIT_MS
+): (text: string) => number[] {
+  const context = vm.createContext({ pattern, limit: MAX_MATCHES_PER_DOCUMENT, text: '' })
+  const deadline = Date.now() + timeLimitMs
+
+  return (text: string): number[] => {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new Error(`Regular expression search exceeded the ${timeLimitMs}ms time limit`)
+    }
+    context.text = text
+    pattern.lastIndex = 0
+    try {
+      return Array.from(scanScript.runInContext(context, { timeout: remaining }) as number[])
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new Error(`Regular expression search exceeded the ${timeLimitMs}ms time limit`)
+      }
+      throw error
+    } finally {
+      context.text = ''
+    }
+  }
+}
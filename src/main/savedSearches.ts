@@ -0,0 +1,196 @@
+import fs from 'fs'
+import path from 'path'
+
+import { getDocumentCount, searchDocuments } from './pdfDocumentStore'
+import { facetSelectionsToFilter } from './pdfMetadata'
+import { combineFilters } from './searchQueryParser'
+import {
+  PDFDocument,
+  SavedSearch,
+  SavedSearchesFile,
+  SavedSearchSummary,
+  SearchHistoryEntry,
+  SearchOptions,
+  SearchParameters
+} from './types/pdfTypes'
+
+const SAVED_SEARCHES_FILE_NAME = 'saved-searches.json'
+const SAVED_SEARCHES_VERSION = 1
+// 履歴に残す検索の数 (新しい順)
+const MAX_HISTORY_ENTRIES = 50
+
+let savedSearchesFilePath: string | null = null
+let history: SearchHistoryEntry[] = []
+let savedSearches: SavedSearch[] = []
+let searchCounter = 0
+// 書き込みは順に行う (同じ一時ファイルへの書き込みが重ならないようにする)
+let pendingWrite: Promise<void> = Promise.resolve()
+
+// 検索履歴と保存済み検索の保存ファイルを読み込む
+export function initSavedSearches(storeDir: string): void {
+  savedSearchesFilePath = path.join(storeDir, SAVED_SEARCHES_FILE_NAME)
+  history = []
+  savedSearches = []
+
+  if (!fs.existsSync(savedSearchesFilePath)) return
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(savedSearchesFilePath, 'utf-8')) as SavedSearchesFile
+    history = (raw.history ?? []).slice(0, MAX_HISTORY_ENTRIES)
+    savedSearches = raw.savedSearches ?? []
+    console.log(
+      `Saved searches loaded: ${savedSearches.length} saved, ${history.length} in history`
+    )
+  } catch (error) {
+    console.error('Error loading saved searches:', error)
+  }
+}
+
+// 検索の処理を止めないよう非同期で書き込む。書き込む内容は実行時点の状態
+function saveSavedSearches(): Promise<void> {
+  const filePath = savedSearchesFilePath
+  if (!filePath) return Promise.resolve()
+
+  const write = async (): Promise<void> => {
+    const data: SavedSearchesFile = { version: SAVED_SEARCHES_VERSION, history, savedSearches }
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    // 書き込み途中で終了しても壊れないよう一時ファイル経由で置き換える
+    const tmpPath = `${filePath}.tmp`
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2))
+    await fs.promises.rename(tmpPath, filePath)
+  }
+  const result = pendingWrite.then(write)
+  pendingWrite = result.catch(() => undefined)
+  return result
+}
+
+// 記録した検索条件を検索オプションに変換する
+export function searchParametersToOptions(params: SearchParameters): SearchOptions {
+  return {
+    mode: params.mode,
+    maxEdits: params.maxEdits,
+    filter: combineFilters(facetSelectionsToFilter(params.facets), {
+      tag: params.tag,
+      collection: params.collection
+    }),
+    sort: params.sort
+  }
+}
+
+function pickParameters(params: SearchParameters): SearchParameters {
+  const { query, mode, maxEdits, facets, sort, tag, collection } = params
+  return { query, mode, maxEdits, facets, sort, tag, collection }
+}
+
+// 同じ条件かどうかの比較用 (未指定の項目は無視する)
+function parametersKey(params: SearchParameters): string {
+  return JSON.stringify(pickParameters(params))
+}
+
+// 条件に該当する文書をすべて求める (文脈の切り出しは最小限にする)
+function matchingDocuments(params: SearchParameters): PDFDocument[] {
+  const page = searchDocuments(params.query, {
+    ...searchParametersToOptions(params),
+    maxResults: Math.max(1, getDocumentCount()),
+    maxMatchesPerDocument: 1,
+    contextLength: 0
+  })
+  return page.hits.map((hit) => hit.document)
+}
+
+// 文書の主パスと重複パス (主パスが削除されると重複パスが昇格するため両方を記録する)
+function documentPaths(doc: PDFDocument): string[] {
+  return [doc.filePath, ...(doc.duplicatePaths ?? [])].map((filePath) => path.resolve(filePath))
+}
+
+// 新しい検索を履歴の先頭に記録する。同じ条件の古い記録は取り除く
+// 保存に失敗しても検索は失敗させない (履歴はメモリ上に残る)
+export function recordSearchHistory(params: SearchParameters, totalResults: number): void {
+  const key = parametersKey(params)
+  history = [
+    { ...pickParameters(params), searchedAt: new Date().toISOString(), totalResults },
+    ...history.filter((entry) => parametersKey(entry) !== key)
+  ].slice(0, MAX_HISTORY_ENTRIES)
+  saveSavedSearches().catch((error) => console.error('Error saving search history:', error))
+}
+
+export function getSearchHistory(): SearchHistoryEntry[] {
+  return history
+}
+
+export async function clearSearchHistory(): Promise<void> {
+  history = []
+  await saveSavedSearches()
+}
+
+function toSummary(saved: SavedSearch): SavedSearchSummary {
+  const { id, name, createdAt, lastRunAt } = saved
+  return { ...pickParameters(saved), id, name, createdAt, lastRunAt }
+}
+
+// 現在の該当文書と前回実行時の該当文書を比べて新しい該当数を求める。
+// 条件が不正になった場合 (正規表現など) は該当無しとして扱う
+function summarizeWithCounts(saved: SavedSearch): SavedSearchSummary {
+  try {
+    const previous = new Set(saved.lastResultPaths)
+    const current = matchingDocuments(saved)
+    const isNew = (doc: PDFDocument): boolean =>
+      !documentPaths(doc).some((filePath) => previous.has(filePath))
+    return {
+      ...toSummary(saved),
+      totalResults: current.length,
+      newHits: current.filter(isNew).length
+    }
+  } catch (error) {
+    console.error(`Error running saved search ${saved.name}:`, error)
+    return { ...toSummary(saved), totalResults: 0, newHits: 0 }
+  }
+}
+
+// 該当数はすべての保存済み検索を実行し直すため、includeCountsを指定した場合だけ求める
+export function listSavedSearches(options: { includeCounts?: boolean } = {}): SavedSearchSummary[] {
+  return savedSearches.map(options.includeCounts ? summarizeWithCounts : toSummary)
+}
+
+export async function saveSearch(
+  name: string,
+  params: SearchParameters
+): Promise<SavedSearchSummary> {
+  const value = name.replace(/\s+/g, ' ').trim()
+  if (!value) throw new Error('Saved search name is required')
+  if (savedSearches.some((saved) => saved.name.toLowerCase() === value.toLowerCase())) {
+    throw new Error(`Saved search already exists: ${value}`)
+  }
+
+  const now = new Date().toISOString()
+  const results = matchingDocuments(params)
+  const saved: SavedSearch = {
+    ...pickParameters(params),
+    id: `search_${Date.now().toString(36)}_${++searchCounter}`,
+    name: value,
+    createdAt: now,
+    lastRunAt: now,
+    lastResultPaths: results.flatMap(documentPaths)
+  }
+  savedSearches = [...savedSearches, saved]
+  await saveSavedSearches()
+  return { ...toSummary(saved), totalResults: results.length, newHits: 0 }
+}
+
+// 保存済み検索を実行したことを記録し、条件を返す (新しい該当数は0に戻る)
+export async function markSavedSearchRun(id: string): Promise<SavedSearch> {
+  const saved = savedSearches.find((entry) => entry.id === id)
+  if (!saved) throw new Error(`Saved search not found: ${id}`)
+
+  saved.lastRunAt = new Date().toISOString()
+  saved.lastResultPaths = matchingDocuments(saved).flatMap(documentPaths)
+  await saveSavedSearches()
+  return saved
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  if (!savedSearches.some((entry) => entry.id === id))
+    throw new Error(`Saved search not found: ${id}`)
+  savedSearches = savedSearches.filter((entry) => entry.id !== id)
+  await saveSavedSearches()
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { decodeSearchCursor, encodeSearchCursor } from './searchCursor'
+
+describe('search cursor', () => {
+  it('round-trips a text query and its options', () => {
+    const options = { mode: 'fuzzy' as const, maxEdits: 1, maxResults: 20, offset: 40 }
+    const cursor = encodeSearchCursor('machine learning', options)
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeSearchCursor(cursor)).toEqual({ query: 'machine learning', options })
+  })
+
+  it('round-trips a structured query with per-document paging', () => {
+    const query = {
+      type: 'and' as const,
+      children: [
+        { type: 'phrase' as const, value: 'neural network' },
+        { type: 'pages' as const, min: 10 }
+      ]
+    }
+    const options = {
+      docId: 'pdf_0123456789abcdef',
+      matchOffset: 5,
+      sort: { field: 'created' as const, order: 'desc' as const }
+    }
+    expect(decodeSearchCursor(encodeSearchCursor(query, options))).toEqual({ query, options })
+  })
+
+  it('rejects cursors that are not valid', () => {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url')
+
+    expect(() => decodeSearchCursor('not a cursor')).toThrow('Invalid search cursor')
+    expect(() => decodeSearchCursor(encode({ v: 2, query: 'a', options: {} }))).toThrow(
+      'Invalid search cursor'
+    )
+    expect(() => decodeSearchCursor(encode({ v: 1, query: 'a', options: { offset: -1 } }))).toThrow(
+      'Invalid search cursor'
+    )
+    expect(() =>
+      decodeSearchCursor(encode({ v: 1, query: { type: 'unknown' }, options: {} }))
+    ).toThrow('Invalid search cursor')
+  })
+})
@@ -0,0 +1,53 @@
+import { z } from 'zod'
+
+import {
+  maxEditsSchema,
+  searchModeSchema,
+  searchQueryNodeSchema,
+  searchSortSchema
+} from './searchQueryParser'
+import { SearchOptions, SearchQueryNode } from './types/pdfTypes'
+
+const CURSOR_VERSION = 1
+
+const cursorSchema = z.object({
+  v: z.literal(CURSOR_VERSION),
+  query: z.union([z.string(), searchQueryNodeSchema]),
+  options: z.object({
+    mode: searchModeSchema.optional(),
+    maxEdits: maxEditsSchema.optional(),
+    maxResults: z.number().int().positive().optional(),
+    maxMatchesPerDocument: z.number().int().positive().optional(),
+    contextLength: z.number().int().min(0).optional(),
+    offset: z.number().int().min(0).optional(),
+    docId: z.string().optional(),
+    matchOffset: z.number().int().min(0).optional(),
+    filter: searchQueryNodeSchema.optional(),
+    sort: searchSortSchema.optional()
+  })
+})
+
+export interface SearchCursorState {
+  query: string | SearchQueryNode
+  options: SearchOptions
+}
+
+// 検索条件と位置をそのまま持つカーソル。サーバー側に状態を残さないため、
+// ページ間でライブラリが変わった場合は新しい順位で続きを返す
+export function encodeSearchCursor(
+  query: string | SearchQueryNode,
+  options: SearchOptions
+): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, query, options })).toString('base64url')
+}
+
+export function decodeSearchCursor(cursor: string): SearchCursorState {
+  try {
+    const { query, options } = cursorSchema.parse(
+      JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    )
+    return { query, options }
+  } catch {
+    throw new Error('Invalid search cursor')
+  }
+}
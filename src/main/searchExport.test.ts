@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { formatSearchExport } from './searchExport'
+import { SearchExportReport } from './types/pdfTypes'
+
+// 書き出し形式だけを確かめるため、文書ストア (PDFの読み込みを含む) は読み込まない
+vi.mock('./pdfDocumentStore', () => ({ getDocumentCount: vi.fn(), searchDocuments: vi.fn() }))
+
+const report: SearchExportReport = {
+  query: 'neural network',
+  mode: 'query',
+  exportedAt: '2024-03-15T00:00:00.000Z',
+  totalResults: 2,
+  totalMatches: 4,
+  results: [
+    {
+      filename: 'deep_learning.pdf',
+      docId: 'pdf_0123456789abcdef',
+      filePath: '/library/deep_learning.pdf',
+      format: 'pdf',
+      score: 2.5,
+      totalMatches: 3,
+      matches: [
+        {
+          position: 120,
+          page: 2,
+          context: 'a neural\nnetwork, "deep"',
+          highlights: [{ start: 2, end: 16 }]
+        },
+        {
+          position: 480,
+          page: 5,
+          context: 'the network | layer',
+          highlights: [{ start: 4, end: 11 }]
+        }
+      ]
+    },
+    {
+      filename: 'notes.md',
+      docId: 'pdf_fedcba9876543210',
+      filePath: '/library/notes.md',
+      format: 'markdown',
+      score: 1,
+      totalMatches: 1,
+      matches: [{ position: 0, page: 1, context: 'network', highlights: [] }]
+    }
+  ]
+}
+
+describe('formatSearchExport', () => {
+  it('writes one CSV row per match with a BOM and CRLF line endings', () => {
+    const csv = formatSearchExport(report, 'csv')
+    expect(csv.startsWith('\uFEFF')).toBe(true)
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'filename,page,context,filePath,docId,score',
+      'deep_learning.pdf,2,"a neural network, ""deep""",/library/deep_learning.pdf,pdf_0123456789abcdef,2.500',
+      'deep_learning.pdf,5,the network | layer,/library/deep_learning.pdf,pdf_0123456789abcdef,2.500',
+      'notes.md,1,network,/library/notes.md,pdf_fedcba9876543210,1.000',
+      ''
+    ])
+  })
+
+  it('writes the report as JSON', () => {
+    expect(JSON.parse(formatSearchExport(report, 'json'))).toEqual(report)
+  })
+
+  it('writes Markdown with highlighted matches and the omitted match count', () => {
+    const lines = formatSearchExport(report, 'markdown').split('\n')
+    expect(lines.slice(0, 6)).toEqual([
+      '# Search results: neural network',
+      '',
+      '- Mode: query',
+      '- Exported: 2024-03-15T00:00:00.000Z',
+      '- Documents: 2',
+      '- Matches: 4'
+    ])
+    expect(lines).toContain('## 1. deep\\_learning.pdf')
+    expect(lines).toContain('`/library/deep_learning.pdf` · score 2.500 · 3 matches')
+    expect(lines).toContain('- p. 2: a **neural network**, "deep"')
+    expect(lines).toContain('- p. 5: the **network** \\| layer')
+    expect(lines).toContain('- … 1 more matches not included')
+    expect(lines).toContain('- p. 1: network')
+    expect(lines.at(-1)).toBe('')
+  })
+})
@@ -0,0 +1,138 @@
+import { getDocumentCount, searchDocuments } from './pdfDocumentStore'
+import {
+  HighlightRange,
+  SearchExportFormat,
+  SearchExportReport,
+  SearchOptions,
+  SearchQueryNode
+} from './types/pdfTypes'
+
+// 1文書あたりに書き出す一致箇所の上限 (よく現れる語で出力が膨れないようにする)
+const EXPORT_MAX_MATCHES_PER_DOCUMENT = 100
+const EXPORT_CONTEXT_LENGTH = 150
+
+// 保存ダイアログの種類と拡張子
+export const SEARCH_EXPORT_FILE_TYPES: Record<
+  SearchExportFormat,
+  { name: string; extension: string }
+> = {
+  csv: { name: 'CSV', extension: 'csv' },
+  json: { name: 'JSON', extension: 'json' },
+  markdown: { name: 'Markdown', extension: 'md' }
+}
+
+// ページ送りせず、該当するすべての文書を検索して書き出し用にまとめる
+export function buildSearchExport(
+  query: string | SearchQueryNode,
+  options: Omit<
+    SearchOptions,
+    'maxResults' | 'maxMatchesPerDocument' | 'offset' | 'docId' | 'matchOffset'
+  > = {}
+): SearchExportReport {
+  const page = searchDocuments(query, {
+    ...options,
+    maxResults: Math.max(1, getDocumentCount()),
+    maxMatchesPerDocument: EXPORT_MAX_MATCHES_PER_DOCUMENT,
+    contextLength: options.contextLength ?? EXPORT_CONTEXT_LENGTH
+  })
+
+  return {
+    query: typeof query === 'string' ? query : JSON.stringify(query),
+    mode: options.mode ?? 'query',
+    exportedAt: new Date().toISOString(),
+    totalResults: page.totalHits,
+    totalMatches: page.totalMatches,
+    results: page.hits.map((hit) => ({
+      filename: hit.document.filename,
+      docId: hit.document.id,
+      filePath: hit.document.filePath,
+      format: hit.document.format,
+      score: hit.score,
+      totalMatches: hit.totalMatches,
+      matches: hit.matches
+    }))
+  }
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ')
+}
+
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 一致箇所ごとに1行。Excelで文字化けしないようBOMを付ける
+function toCSV(report: SearchExportReport): string {
+  const rows = [['filename', 'page', 'context', 'filePath', 'docId', 'score']]
+  for (const result of report.results) {
+    for (const match of result.matches) {
+      rows.push([
+        result.filename,
+        String(match.page),
+        collapseWhitespace(match.context).trim(),
+        result.filePath,
+        result.docId,
+        result.score.toFixed(3)
+      ])
+    }
+  }
+  return '\uFEFF' + rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+// 一致した範囲を太字にする
+function markdownContext(context: string, highlights: HighlightRange[]): string {
+  let result = ''
+  let cursor = 0
+  for (const { start, end } of highlights) {
+    if (start < cursor) continue
+    result +=
+      escapeMarkdown(context.slice(cursor, start)) +
+      `**${escapeMarkdown(context.slice(start, end))}**`
+    cursor = end
+  }
+  result += escapeMarkdown(context.slice(cursor))
+  return collapseWhitespace(result).trim()
+}
+
+function toMarkdown(report: SearchExportReport): string {
+  const lines = [
+    `# Search results: ${escapeMarkdown(report.query)}`,
+    '',
+    `- Mode: ${report.mode}`,
+    `- Exported: ${report.exportedAt}`,
+    `- Documents: ${report.totalResults}`,
+    `- Matches: ${report.totalMatches}`
+  ]
+
+  report.results.forEach((result, index) => {
+    lines.push('', `## ${index + 1}. ${escapeMarkdown(result.filename)}`, '')
+    lines.push(
+      `\`${result.filePath}\` · score ${result.score.toFixed(3)} · ${result.totalMatches} matches`,
+      ''
+    )
+    for (const match of result.matches) {
+      lines.push(`- p. ${match.page}: ${markdownContext(match.context, match.highlights)}`)
+    }
+    if (result.matches.length < result.totalMatches) {
+      lines.push(`- … ${result.totalMatches - result.matches.length} more matches not included`)
+    }
+  })
+  return lines.join('\n') + '\n'
+}
+
+export function formatSearchExport(report: SearchExportReport, format: SearchExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCSV(report)
+    case 'json':
+      return JSON.stringify(report, null, 2)
+    case 'markdown':
+      return toMarkdown(report)
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+
+import { combineFilters, parseSearchQuery, toSearchQuery } from './searchQueryParser'
+
+describe('parseSearchQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(parseSearchQuery('')).toBeNull()
+    expect(parseSearchQuery('   ')).toBeNull()
+  })
+
+  it('joins words with an implicit AND', () => {
+    expect(parseSearchQuery('machine learning')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'machine' },
+        { type: 'term', value: 'learning' }
+      ]
+    })
+  })
+
+  it('binds AND tighter than OR', () => {
+    expect(parseSearchQuery('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'term', value: 'a' },
+            { type: 'term', value: 'b' }
+          ]
+        },
+        { type: 'term', value: 'c' }
+      ]
+    })
+  })
+
+  it('groups with parentheses and negates with NOT and -', () => {
+    expect(parseSearchQuery('(a OR b) NOT c -d')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', value: 'a' },
+            { type: 'term', value: 'b' }
+          ]
+        },
+        { type: 'not', child: { type: 'term', value: 'c' } },
+        { type: 'not', child: { type: 'term', value: 'd' } }
+      ]
+    })
+  })
+
+  it('reads quoted phrases, including an unterminated one', () => {
+    expect(parseSearchQuery('"neural network"')).toEqual({
+      type: 'phrase',
+      value: 'neural network'
+    })
+    expect(parseSearchQuery('"open ended')).toEqual({ type: 'phrase', value: 'open ended' })
+  })
+
+  it('skips unmatched closing parentheses', () => {
+    expect(parseSearchQuery('a ) b')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'a' },
+        { type: 'term', value: 'b' }
+      ]
+    })
+  })
+
+  it('parses field filters', () => {
+    expect(parseSearchQuery('filename:"annual report*"')).toEqual({
+      type: 'filename',
+      pattern: 'annual report*'
+    })
+    expect(parseSearchQuery('author:tanaka')).toEqual({
+      type: 'metadata',
+      field: 'author',
+      value: 'tanaka'
+    })
+    expect(parseSearchQuery('keyword:ai')).toEqual({
+      type: 'metadata',
+      field: 'keywords',
+      value: 'ai'
+    })
+    expect(parseSearchQuery('lang:ja')).toEqual({
+      type: 'metadata',
+      field: 'language',
+      value: 'ja'
+    })
+    expect(parseSearchQuery('tags:draft')).toEqual({ type: 'tag', value: 'draft' })
+    expect(parseSearchQuery('collection:thesis')).toEqual({
+      type: 'collection',
+      value: 'thesis'
+    })
+  })
+
+  it('parses page ranges', () => {
+    expect(parseSearchQuery('pages:10')).toEqual({ type: 'pages', min: 10, max: 10 })
+    expect(parseSearchQuery('pages:5..20')).toEqual({ type: 'pages', min: 5, max: 20 })
+    expect(parseSearchQuery('pages:..20')).toEqual({ type: 'pages', min: undefined, max: 20 })
+    expect(parseSearchQuery('pages:>10')).toEqual({ type: 'pages', min: 11 })
+    expect(parseSearchQuery('pages:>=10')).toEqual({ type: 'pages', min: 10 })
+    expect(parseSearchQuery('pages:<10')).toEqual({ type: 'pages', max: 9 })
+    expect(parseSearchQuery('pages:<=10')).toEqual({ type: 'pages', max: 10 })
+  })
+
+  it('parses date ranges', () => {
+    expect(parseSearchQuery('added:2024')).toEqual({ type: 'added', from: '2024', to: '2024' })
+    expect(parseSearchQuery('created:2023-01..2023-06')).toEqual({
+      type: 'created',
+      from: '2023-01',
+      to: '2023-06'
+    })
+    expect(parseSearchQuery('modified:2024-03-01..')).toEqual({
+      type: 'modified',
+      from: '2024-03-01',
+      to: undefined
+    })
+  })
+
+  it('includes the period itself for >= and <=', () => {
+    expect(parseSearchQuery('added:>=2024-03')).toEqual({ type: 'added', from: '2024-03' })
+    expect(parseSearchQuery('added:<=2024-03')).toEqual({ type: 'added', to: '2024-03' })
+  })
+
+  it('excludes the period itself for > and <', () => {
+    expect(parseSearchQuery('created:>2024')).toEqual({ type: 'created', from: '2025' })
+    expect(parseSearchQuery('created:<2024')).toEqual({ type: 'created', to: '2023' })
+    expect(parseSearchQuery('modified:>2024-12')).toEqual({ type: 'modified', from: '2025-01' })
+    expect(parseSearchQuery('modified:<2024-01')).toEqual({ type: 'modified', to: '2023-12' })
+    expect(parseSearchQuery('added:>2024-02-28')).toEqual({ type: 'added', from: '2024-02-29' })
+    expect(parseSearchQuery('added:>2023-12-31')).toEqual({ type: 'added', from: '2024-01-01' })
+    expect(parseSearchQuery('added:<2024-03-01')).toEqual({ type: 'added', to: '2024-02-29' })
+  })
+
+  it('treats fields it cannot interpret as plain terms', () => {
+    expect(parseSearchQuery('pages:many')).toEqual({ type: 'term', value: 'pages:many' })
+    expect(parseSearchQuery('added:yesterday')).toEqual({ type: 'term', value: 'added:yesterday' })
+    expect(parseSearchQuery('http://example.com')).toEqual({
+      type: 'term',
+      value: 'http://example.com'
+    })
+  })
+})
+
+describe('toSearchQuery', () => {
+  it('passes structured queries through unchanged', () => {
+    const query = { type: 'term' as const, value: 'a' }
+    expect(toSearchQuery(query)).toBe(query)
+    expect(toSearchQuery('a')).toEqual(query)
+  })
+})
+
+describe('combineFilters', () => {
+  it('returns undefined without any condition', () => {
+    expect(combineFilters(undefined)).toBeUndefined()
+    expect(combineFilters('')).toBeUndefined()
+  })
+
+  it('ANDs the filter with the tag and collection', () => {
+    expect(combineFilters('author:tanaka', { tag: 'draft', collection: 'thesis' })).toEqual({
+      type: 'and',
+      children: [
+        { type: 'metadata', field: 'author', value: 'tanaka' },
+        { type: 'tag', value: 'draft' },
+        { type: 'collection', value: 'thesis' }
+      ]
+    })
+    expect(combineFilters(undefined, { tag: 'draft' })).toEqual({ type: 'tag', value: 'draft' })
+  })
+})
@@ -0,0 +1,348 @@
+import { z } from 'zod'
+
+import { SearchQueryNode } from './types/pdfTypes'
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/
+
+// 構造化クエリの入力スキーマ (MCPツールとIPCで共通)
+export const searchQueryNodeSchema: z.ZodType<SearchQueryNode> = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal('term'), value: z.string() }),
+    z.object({ type: z.literal('phrase'), value: z.string() }),
+    z.object({ type: z.literal('and'), children: z.array(searchQueryNodeSchema).min(1) }),
+    z.object({ type: z.literal('or'), children: z.array(searchQueryNodeSchema).min(1) }),
+    z.object({ type: z.literal('not'), child: searchQueryNodeSchema }),
+    z.object({ type: z.literal('filename'), pattern: z.string() }),
+    z.object({
+      type: z.literal('metadata'),
+      field: z.enum(['title', 'author', 'subject', 'keywords', 'producer', 'language']),
+      value: z.string(),
+      exact: z.boolean().optional()
+    }),
+    z.object({
+      type: z.literal('pages'),
+      min: z.number().int().optional(),
+      max: z.number().int().optional()
+    }),
+    z.object({
+      type: z.enum(['added', 'created', 'modified']),
+      from: z.string().regex(DATE_PATTERN).optional(),
+      to: z.string().regex(DATE_PATTERN).optional()
+    }),
+    z.object({ type: z.enum(['tag', 'collection']), value: z.string() })
+  ])
+)
+
+// 検索モードとfuzzyモードの編集距離 (MCPツールとIPCで共通)
+export const searchModeSchema = z.enum(['query', 'literal', 'regex', 'fuzzy'])
+export const maxEditsSchema = z.number().int().min(0).max(2)
+
+// 並び順とファセットの選択 (MCPツールとIPCで共通)
+export const searchSortFieldSchema = z.enum([
+  'relevance',
+  'filename',
+  'title',
+  'author',
+  'created',
+  'modified',
+  'added',
+  'pages'
+])
+export const searchSortSchema = z.object({
+  field: searchSortFieldSchema,
+  order: z.enum(['asc', 'desc']).optional()
+})
+export const facetSelectionSchema = z.object({
+  field: z.enum(['author', 'year', 'producer', 'language', 'keywords']),
+  value: z.string()
+})
+
+// 履歴・保存済み検索として記録する検索条件 (IPCで共通)
+export const searchParametersSchema = z.object({
+  query: z.union([z.string(), searchQueryNodeSchema]),
+  mode: searchModeSchema.default('query'),
+  maxEdits: maxEditsSchema.optional(),
+  facets: z.array(facetSelectionSchema).default([]),
+  sort: searchSortSchema.optional(),
+  tag: z.string().optional(),
+  collection: z.string().optional()
+})
+
+type LexToken =
+  | { kind: 'lparen' }
+  | { kind: 'rparen' }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'word'; value: string }
+
+function lex(input: string): LexToken[] {
+  const tokens: LexToken[] = []
+  let i = 0
+
+  // 閉じ引用符が無い場合は末尾までをひとつの値とみなす
+  const readQuoted = (): string => {
+    const end = input.indexOf('"', i + 1)
+    const value = input.slice(i + 1, end === -1 ? input.length : end)
+    i = end === -1 ? input.length : end + 1
+    return value
+  }
+
+  while (i < input.length) {
+    const char = input[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' })
+      i++
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen' })
+      i++
+    } else if (char === '"') {
+      tokens.push({ kind: 'phrase', value: readQuoted() })
+    } else {
+      let value = ''
+      while (i < input.length && !/[\s()"]/.test(input[i])) {
+        value += input[i++]
+      }
+      // filename:"my report" のように値が引用符で囲まれている場合
+      if (value.endsWith(':') && input[i] === '"') {
+        value += readQuoted()
+      }
+      tokens.push({ kind: 'word', value })
+    }
+  }
+  return tokens
+}
+
+function parseNumberRange(value: string): { min?: number; max?: number } | null {
+  const comparison = value.match(/^(>=|<=|>|<)(\d+)$/)
+  if (comparison) {
+    const n = Number(comparison[2])
+    switch (comparison[1]) {
+      case '>':
+        return { min: n + 1 }
+      case '>=':
+        return { min: n }
+      case '<':
+        return { max: n - 1 }
+      default:
+        return { max: n }
+    }
+  }
+  const range = value.match(/^(\d*)\.\.(\d*)$/)
+  if (range && (range[1] || range[2])) {
+    return {
+      min: range[1] ? Number(range[1]) : undefined,
+      max: range[2] ? Number(range[2]) : undefined
+    }
+  }
+  if (/^\d+$/.test(value)) {
+    return { min: Number(value), max: Number(value) }
+  }
+  return null
+}
+
+// 期間 (YYYY / YYYY-MM / YYYY-MM-DD) を同じ粒度でdeltaだけずらす
+function shiftPeriod(value: string, delta: number): string {
+  const [year, month, day] = value.split('-').map(Number)
+  if (!month) return String(year + delta).padStart(4, '0')
+  const date = new Date(
+    day ? Date.UTC(year, month - 1, day + delta) : Date.UTC(year, month - 1 + delta, 1)
+  )
+  const yyyy = String(date.getUTCFullYear()).padStart(4, '0')
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0')
+  return day ? `${yyyy}-${mm}-${String(date.getUTCDate()).padStart(2, '0')}` : `${yyyy}-${mm}`
+}
+
+// > と < はその期間を含めないため、次の期間の開始・前の期間の終わりに読み替える
+function parseDateRange(value: string): { from?: string; to?: string } | null {
+  const isDate = (s: string): boolean => DATE_PATTERN.test(s)
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/)
+  if (comparison && isDate(comparison[2])) {
+    const date = comparison[2]
+    switch (comparison[1]) {
+      case '>':
+        return { from: shiftPeriod(date, 1) }
+      case '>=':
+        return { from: date }
+      case '<':
+        return { to: shiftPeriod(date, -1) }
+      default:
+        return { to: date }
+    }
+  }
+  const range = value.match(/^(.*)\.\.(.*)$/)
+  if (range && (range[1] || range[2])) {
+    if ((range[1] && !isDate(range[1])) || (range[2] && !isDate(range[2]))) return null
+    return { from: range[1] || undefined, to: range[2] || undefined }
+  }
+  if (isDate(value)) {
+    return { from: value, to: value }
+  }
+  return null
+}
+
+// field:value 形式の語をフィルタに変換する。解釈できない場合は通常の語として扱う
+function parseField(word: string): SearchQueryNode | null {
+  const separator = word.indexOf(':')
+  if (separator <= 0) return null
+
+  const field = word.slice(0, separator).toLowerCase()
+  const value = word.slice(separator + 1)
+  if (!value) return null
+
+  switch (field) {
+    case 'filename':
+      return { type: 'filename', pattern: value }
+    case 'pages': {
+      const range = parseNumberRange(value)
+      return range ? { type: 'pages', ...range } : null
+    }
+    case 'title':
+    case 'author':
+    case 'subject':
+    case 'producer':
+      return { type: 'metadata', field, value }
+    case 'keyword':
+    case 'keywords':
+      return { type: 'metadata', field: 'keywords', value }
+    case 'lang':
+    case 'language':
+      return { type: 'metadata', field: 'language', value }
+    case 'added':
+    case 'created':
+    case 'modified': {
+      const range = parseDateRange(value)
+      return range ? { type: field, ...range } : null
+    }
+    case 'tag':
+    case 'tags':
+      return { type: 'tag', value }
+    case 'collection':
+      return { type: 'collection', value }
+    default:
+      return null
+  }
+}
+
+class QueryParser {
+  private position = 0
+
+  constructor(private tokens: LexToken[]) {}
+
+  parse(): SearchQueryNode | null {
+    const nodes: SearchQueryNode[] = []
+    while (this.position < this.tokens.length) {
+      const node = this.parseOr()
+      if (node) nodes.push(node)
+      // 対応の無い閉じ括弧は読み飛ばす
+      else this.position++
+    }
+    return combine('and', nodes)
+  }
+
+  private peek(): LexToken | undefined {
+    return this.tokens[this.position]
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek()
+    return token?.kind === 'word' && token.value === value
+  }
+
+  private parseOr(): SearchQueryNode | null {
+    const children: SearchQueryNode[] = []
+    const first = this.parseAnd()
+    if (first) children.push(first)
+
+    while (this.isOperator('OR')) {
+      this.position++
+      const next = this.parseAnd()
+      if (next) children.push(next)
+    }
+    return combine('or', children)
+  }
+
+  // 演算子の無い並びは暗黙のANDとして扱う
+  private parseAnd(): SearchQueryNode | null {
+    const children: SearchQueryNode[] = []
+    while (this.position < this.tokens.length) {
+      const token = this.peek()
+      if (token?.kind === 'rparen' || this.isOperator('OR')) break
+      if (this.isOperator('AND')) {
+        this.position++
+        continue
+      }
+      const node = this.parseUnary()
+      if (node) children.push(node)
+    }
+    return combine('and', children)
+  }
+
+  private parseUnary(): SearchQueryNode | null {
+    if (this.isOperator('NOT')) {
+      this.position++
+      const child = this.parseUnary()
+      return child ? { type: 'not', child } : null
+    }
+
+    const token = this.peek()
+    if (token?.kind === 'word' && token.value.length > 1 && token.value.startsWith('-')) {
+      this.position++
+      const child = this.parseWord(token.value.slice(1))
+      return { type: 'not', child }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): SearchQueryNode | null {
+    const token = this.tokens[this.position++]
+    if (!token) return null
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = this.parseOr()
+        if (this.peek()?.kind === 'rparen') this.position++
+        return node
+      }
+      case 'rparen':
+        return null
+      case 'phrase':
+        return token.value.trim() ? { type: 'phrase', value: token.value } : null
+      case 'word':
+        return this.parseWord(token.value)
+    }
+  }
+
+  private parseWord(value: string): SearchQueryNode {
+    return parseField(value) ?? { type: 'term', value }
+  }
+}
+
+function combine(type: 'and' | 'or', children: SearchQueryNode[]): SearchQueryNode | null {
+  if (children.length === 0) return null
+  if (children.length === 1) return children[0]
+  return { type, children }
+}
+
+// 検索文字列を構文木に変換する。空のクエリはnullを返す
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  return new QueryParser(lex(input)).parse()
+}
+
+// 文字列・構造化クエリのどちらでも受け付ける
+export function toSearchQuery(query: string | SearchQueryNode): SearchQueryNode | null {
+  return typeof query === 'string' ? parseSearchQuery(query) : query
+}
+
+// 検索条件とタグ・コレクションの指定をANDで結合する。条件が何も無ければundefined
+export function combineFilters(
+  filter: string | SearchQueryNode | undefined,
+  labels: { tag?: string; collection?: string } = {}
+): SearchQueryNode | undefined {
+  const nodes: SearchQueryNode[] = []
+  const parsed = filter === undefined ? null : toSearchQuery(filter)
+  if (parsed) nodes.push(parsed)
+  if (labels.tag) nodes.push({ type: 'tag', value: labels.tag })
+  if (labels.collection) nodes.push({ type: 'collection', value: labels.collection })
+  return combine('and', nodes) ?? undefined
+}
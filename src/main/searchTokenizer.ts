@@ -0,0 +1,116 @@
+export interface Token {
+  term: string
+  // 元テキスト上の位置 (正規化前)
+  start: number
+  end: number
+}
+
+export interface NormalizedText {
+  text: string
+  // 正規化後の各UTF-16位置に対応する元テキスト上の開始位置 (末尾に全体長を追加)
+  offsets: number[]
+}
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆ヵヶ]/u
+const WORD_CHAR = /[\p{L}\p{N}\p{M}]/u
+const COMBINING_MARK = /^\p{M}+$/u
+
+// カタカナをひらがなに寄せる (ァ〜ヶ → ぁ〜ゖ)
+function foldKana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60))
+}
+
+function foldChar(text: string): string {
+  return foldKana(text.normalize('NFKC').toLowerCase())
+}
+
+// NFKC正規化・小文字化・カナ統一を行い、元テキストへの位置対応表を作る
+export function normalizeForSearch(input: string): NormalizedText {
+  let text = ''
+  const offsets: number[] = []
+  let lastStart = -1
+  let lastEnd = -1
+
+  for (let i = 0; i < input.length; ) {
+    const codePoint = input.codePointAt(i) ?? 0
+    const width = codePoint > 0xffff ? 2 : 1
+    const normalized = input.slice(i, i + width).normalize('NFKC')
+
+    // 半角濁点などの結合文字は直前の文字と合成し直す (ｶﾞ → が)
+    if (COMBINING_MARK.test(normalized) && lastStart >= 0) {
+      const composed = foldChar(input.slice(lastStart, i + width))
+      text = text.slice(0, lastEnd) + composed
+      offsets.length = lastEnd
+      for (let j = 0; j < composed.length; j++) offsets.push(lastStart)
+    } else {
+      const folded = foldKana(normalized.toLowerCase())
+      lastStart = i
+      lastEnd = text.length
+      text += folded
+      for (let j = 0; j < folded.length; j++) offsets.push(i)
+    }
+    i += width
+  }
+  offsets.push(input.length)
+
+  return { text, offsets }
+}
+
+function isCJK(char: string): boolean {
+  return CJK_CHAR.test(char)
+}
+
+export function isCJKTerm(term: string): boolean {
+  return [...term].every(isCJK)
+}
+
+// 英数字は単語単位、日本語・中国語は文字bigram (1文字だけの連続はunigram) に分割する
+export function tokenize(input: string): Token[] {
+  return tokenizeNormalized(normalizeForSearch(input))
+}
+
+// 正規化済みのテキストを分割する (正規化結果を使い回す場合)
+export function tokenizeNormalized({ text, offsets }: NormalizedText): Token[] {
+  const tokens: Token[] = []
+  const chars = [...text]
+  // 各文字の正規化後テキスト上の位置
+  const charIndex: number[] = []
+  let position = 0
+  for (const char of chars) {
+    charIndex.push(position)
+    position += char.length
+  }
+  charIndex.push(position)
+
+  const toOriginal = (from: number, to: number): { start: number; end: number } => {
+    const start = offsets[charIndex[from]]
+    // 終端は最後の文字の次の元位置
+    const end = offsets[charIndex[to]] > start ? offsets[charIndex[to]] : start + 1
+    return { start, end }
+  }
+
+  let i = 0
+  while (i < chars.length) {
+    if (!WORD_CHAR.test(chars[i])) {
+      i++
+      continue
+    }
+
+    const cjk = isCJK(chars[i])
+    let j = i + 1
+    while (j < chars.length && WORD_CHAR.test(chars[j]) && isCJK(chars[j]) === cjk) j++
+
+    if (!cjk) {
+      tokens.push({ term: chars.slice(i, j).join(''), ...toOriginal(i, j) })
+    } else if (j - i === 1) {
+      tokens.push({ term: chars[i], ...toOriginal(i, j) })
+    } else {
+      for (let k = i; k < j - 1; k++) {
+        tokens.push({ term: chars[k] + chars[k + 1], ...toOriginal(k, k + 2) })
+      }
+    }
+    i = j
+  }
+
+  return tokens
+}
@@ -0,0 +1,123 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+
+import {
+  CallableTool,
+  createClaudeModel,
+  createGeminiModel,
+  externalTools,
+  runToolCallingLoop,
+  simplifySchema
+} from './mcpToolCalling'
+import { buildPDFMcpServer } from './pdfMcpServer'
+import { ToolAgentRequest, ToolAgentResponse, ToolCallStep } from './types/pdfTypes'
+
+const DEFAULT_MODELS = { gemini: 'gemini-1.5-flash', claude: 'claude-3-haiku-20240307' }
+const DEFAULT_MAX_STEPS = 8
+const MAX_STEPS_LIMIT = 20
+// 検索用MCPサーバーのうちモデルに渡すツール (登録・削除は渡さない)
+const PDF_TOOL_NAMES = ['search-pdfs', 'list-pdfs', 'get-document-outline', 'get-pdf-content']
+
+const SYSTEM_PROMPT = `You answer questions about the user's document library by calling tools.
+- Use search-pdfs to find relevant documents. Try other keywords, synonyms or fuzzy mode if a search finds nothing.
+- Use get-document-outline and get-pdf-content with startPage/endPage or section to read the relevant parts, instead of whole documents.
+- Page through long results with the cursors and ranges the tools return.
+- Answer only from what the tools returned. Cite every statement as [filename, p.N]. If the library does not contain the answer, say so.
+- Answer in the language of the question.`
+
+// 検索用MCPサーバーにメモリ上で接続し、そのツールを使う
+async function connectPDFTools(): Promise<{ tools: CallableTool[]; close: () => Promise<void> }> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const server = buildPDFMcpServer()
+  await server.connect(serverTransport)
+  const client = new Client({ name: 'mpc-app-agent', version: '1.0.0' })
+  await client.connect(clientTransport)
+
+  const { tools } = await client.listTools()
+  return {
+    tools: tools
+      .filter((tool) => PDF_TOOL_NAMES.includes(tool.name))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description ?? '',
+        parameters: simplifySchema(tool.inputSchema),
+        call: async (args) => {
+          try {
+            const result = await client.callTool({ name: tool.name, arguments: args })
+            return {
+              success: true,
+              content: Array.isArray(result.content) ? result.content : [],
+              isError: result.isError === true
+            }
+          } catch (error) {
+            return { success: false, error: (error as Error).message }
+          }
+        }
+      })),
+    close: async () => {
+      await client.close()
+      await server.close()
+    }
+  }
+}
+
+function resolveApiKey(request: ToolAgentRequest): string {
+  const apiKey =
+    request.apiKey ||
+    (request.provider === 'gemini'
+      ? process.env.GOOGLE_GENERATIVE_AI
+      : process.env.ANTHROPIC_API_KEY)
+  if (!apiKey) {
+    throw new Error(
+      request.provider === 'gemini'
+        ? 'Gemini API key is required (or set GOOGLE_GENERATIVE_AI)'
+        : 'Claude API key is required (or set ANTHROPIC_API_KEY)'
+    )
+  }
+  return apiKey
+}
+
+// 登録済み文書の検索ツールを使って質問に回答する
+export async function runToolAgent(
+  request: ToolAgentRequest,
+  onStep?: (step: ToolCallStep) => void
+): Promise<ToolAgentResponse> {
+  const steps: ToolCallStep[] = []
+  let pdfTools: Awaited<ReturnType<typeof connectPDFTools>> | null = null
+
+  try {
+    if (!request.question?.trim()) throw new Error('A question is required')
+    const apiKey = resolveApiKey(request)
+    const maxSteps = Math.min(
+      Math.max(1, Math.floor(request.maxSteps ?? DEFAULT_MAX_STEPS)),
+      MAX_STEPS_LIMIT
+    )
+    const modelName = request.model || DEFAULT_MODELS[request.provider]
+
+    pdfTools = await connectPDFTools()
+    const tools = [...pdfTools.tools]
+    if (request.includeExternalTools)
+      tools.push(...externalTools(new Set(tools.map((tool) => tool.name))))
+
+    const model =
+      request.provider === 'gemini'
+        ? createGeminiModel(apiKey, modelName, SYSTEM_PROMPT, request.question, tools)
+        : createClaudeModel(apiKey, modelName, SYSTEM_PROMPT, request.question, tools)
+
+    const { answer, reachedStepLimit } = await runToolCallingLoop(
+      model,
+      tools,
+      maxSteps,
+      (step) => {
+        steps.push(step)
+        onStep?.(step)
+      }
+    )
+    return { success: true, answer, steps, reachedStepLimit }
+  } catch (error) {
+    console.error('Tool agent error:', error)
+    return { success: false, steps, error: (error as Error).message }
+  } finally {
+    await pdfTools?.close().catch((error) => console.error('Error closing agent tools:', error))
+  }
+}
@@ -1,32 +1,125 @@
+// 取り込める文書の形式。PDFDocumentはPDF以外の形式も同じ形で保持する
+export type DocumentFormat = 'pdf' | 'markdown' | 'text' | 'html' | 'docx'
+
 export interface PDFDocument {
   id: string
   filePath: string
   filename: string
+  format: DocumentFormat
+  // 取り込み元のライブラリルート
+  rootPath: string
   content: string
+  // 各ページ本文の開始文字位置 (index 0 = 1ページ目)
+  pageOffsets: number[]
+  // 同一内容で別のパスにあるファイル
+  duplicatePaths?: string[]
+  // 見出しと各セクションの範囲
+  outline: DocumentOutline
   metadata: {
     pages: number
     size: number
     createdAt: Date
-    info?: any
+    // PDFの文書情報 (Info辞書とXMPメタデータから抽出)
+    info: PDFDocumentInfo
   }
 }
 
+// ファイルに記録された見出し (PDFのしおり、Markdown・HTMLの見出し)。本文中の位置は登録時に求める
+export interface OutlineHeading {
+  title: string
+  // 1始まりの階層
+  level: number
+  // 1始まりのページ番号
+  page: number
+}
+
+// 見出しから次の同じ階層以上の見出しの直前までが1つのセクション
+export interface OutlineSection extends OutlineHeading {
+  // contentでの開始位置 (見出し行を含む) と終了位置 (含まない)
+  start: number
+  end: number
+}
+
+export interface DocumentOutline {
+  // embedded: ファイルに記録された見出し、detected: 本文から推定した見出し
+  source: 'embedded' | 'detected'
+  sections: OutlineSection[]
+}
+
+export interface PDFDocumentInfo {
+  title?: string
+  author?: string
+  subject?: string
+  keywords: string[]
+  creationDate?: Date
+  modificationDate?: Date
+  producer?: string
+  language?: string
+}
+
+// 日付をISO文字列にしたもの (レンダラー向け)
+export interface PDFDocumentInfoForRenderer {
+  title?: string
+  author?: string
+  subject?: string
+  keywords: string[]
+  creationDate?: string
+  modificationDate?: string
+  producer?: string
+  language?: string
+}
+
+// ローダーが文書ファイルから取り出した本文と文書情報
+export interface ExtractedDocument {
+  text: string
+  // 各ページ本文の開始文字位置 (index 0 = 1ページ目)。ページの無い形式は全体で1ページ
+  pageOffsets: number[]
+  numpages: number
+  // PDFのInfo辞書と同じキー (Title, Author, CreationDate など) で表した文書情報
+  info?: Record<string, unknown>
+  xmp?: Record<string, string>
+  // ファイルに記録された見出し。無い形式・文書では本文から推定する
+  outline?: OutlineHeading[]
+}
+
+// 拡張子から判定した形式付きの抽出結果
+export interface LoadedDocument extends ExtractedDocument {
+  format: DocumentFormat
+}
+
+// 文書ファイルの解析関数 (メインスレッドでの直接解析またはワーカースレッドでの解析)
+export type DocumentParser = (filePath: string, buffer: Buffer) => Promise<LoadedDocument>
+
+// contextの中で一致した範囲 (startを含みendを含まない文字位置)
+export interface HighlightRange {
+  start: number
+  end: number
+}
+
 export interface SearchMatch {
   position: number
+  page: number
   context: string
-  preview: string
+  highlights: HighlightRange[]
 }
 
 export interface SearchResult {
   docId: string
   filename: string
+  format: DocumentFormat
+  // BM25スコア (大きいほど関連度が高い)
+  score: number
   totalMatches: number
+  // matchesの先頭が文書内で何番目の一致か (0始まり)
+  matchOffset: number
   matches: SearchMatch[]
+  // 同じ文書の続きの一致を取得するカーソル
+  nextMatchesCursor: string | null
   metadata: {
     pages: number
     size: number
     createdAt: Date
-    info?: any
+    info: PDFDocumentInfo
   }
 }
 
@@ -34,36 +127,488 @@ export interface SearchResultForRenderer {
   filename: string
   docId: string
   filePath: string
+  format: DocumentFormat
+  score: number
   totalMatches: number
+  matchOffset: number
   matches: SearchMatch[]
+  nextMatchesCursor: string | null
   metadata: {
     pages: number
     size: number
     createdAt: string
+    info: PDFDocumentInfoForRenderer
   }
 }
 
+export interface RankedSearchHit {
+  document: PDFDocument
+  score: number
+  // 文書内の一致箇所の総数 (matchesはmatchOffsetからの一部のみ)
+  totalMatches: number
+  matchOffset: number
+  matches: SearchMatch[]
+  nextMatchesCursor: string | null
+}
+
+export interface RankedSearchPage {
+  hits: RankedSearchHit[]
+  // 該当文書の総数と、該当文書すべての一致箇所の総数
+  totalHits: number
+  totalMatches: number
+  // hitsの先頭文書の順位 (0始まり)
+  offset: number
+  // 次のページを取得するカーソル (最後のページではnull)
+  nextCursor: string | null
+  // 該当文書すべてを対象にした文書情報ごとの件数
+  facets: SearchFacets
+}
+
 export interface PDFDocumentForRenderer {
   docId: string
   filename: string
   filePath: string
+  format: DocumentFormat
+  rootPath: string
+  duplicatePaths: string[]
   pages: number
   contentLength: number
   createdAt: string
+  info: PDFDocumentInfoForRenderer
+  sectionCount: number
+  tags: string[]
+  collections: string[]
+  notes: string
+}
+
+export interface OutlineSectionForRenderer {
+  title: string
+  level: number
+  page: number
+  length: number
+}
+
+export interface DocumentOutlineResponse {
+  success: boolean
+  docId?: string
+  filename?: string
+  source?: DocumentOutline['source']
+  sections?: OutlineSectionForRenderer[]
+  error?: string
 }
 
 export interface SearchResponse {
   success: boolean
-  query?: string
+  query?: string | SearchQueryNode
+  mode?: SearchMode
   totalDocuments?: number
+  // 該当文書と一致箇所の総数 (resultsFoundはこのページの件数)
+  totalResults?: number
+  totalMatches?: number
+  offset?: number
+  nextCursor?: string | null
+  facets?: SearchFacets
   resultsFound?: number
   results?: SearchResultForRenderer[]
   error?: string
 }
 
+export type SearchExportFormat = 'csv' | 'json' | 'markdown'
+
+// 書き出す検索結果 (一致箇所は文書ごとに上限まで)
+export interface SearchExportReport {
+  query: string
+  mode: SearchMode
+  exportedAt: string
+  totalResults: number
+  totalMatches: number
+  results: {
+    filename: string
+    docId: string
+    filePath: string
+    format: DocumentFormat
+    score: number
+    totalMatches: number
+    matches: SearchMatch[]
+  }[]
+}
+
+export interface SearchExportResponse {
+  success: boolean
+  // 保存ダイアログで取り消した場合はtrue (errorは無い)
+  canceled?: boolean
+  filePath?: string
+  exportedMatches?: number
+  error?: string
+}
+
 export interface PDFListResponse {
   success: boolean
   totalDocuments?: number
   documents?: PDFDocumentForRenderer[]
   error?: string
+}
+
+export interface IndexedPDFEntry {
+  filePath: string
+  // 旧バージョンのインデックスには無い (PDFのみ対応していたため 'pdf' とみなす)
+  format?: DocumentFormat
+  hash: string
+  mtimeMs: number
+  size: number
+  text: string
+  pageOffsets: number[]
+  numpages: number
+  info?: Record<string, unknown>
+  // XMPメタデータ (dc:language など)
+  xmp?: Record<string, string>
+  outline?: OutlineHeading[]
+  indexedAt: string
+}
+
+export interface PDFIndexFile {
+  version: number
+  entries: { [filePath: string]: IndexedPDFEntry }
+}
+
+export interface PDFLibraryChangeEvent {
+  type: 'added' | 'changed' | 'removed'
+  filePath: string
+  filename: string
+  docId?: string
+  duplicateOf?: string
+  error?: string
+}
+
+// ドキュメントストアの変更 (MCPサーバーのリソース通知に使う)
+export interface DocumentStoreChange {
+  type: 'added' | 'updated' | 'removed'
+  docId: string
+}
+
+export interface PDFRegistrationResult {
+  document: PDFDocument
+  status: 'registered' | 'updated' | 'duplicate'
+  duplicateOf?: string
+}
+
+export interface PDFSummary {
+  summary: string
+  contextId: string
+}
+
+// 文書IDに結び付けたユーザーの注釈 (同じ内容のファイルは再登録後も同じ注釈になる)
+export interface DocumentAnnotations {
+  tags: string[]
+  collections: string[]
+  notes: string
+  updatedAt?: string
+}
+
+export interface DocumentAnnotationsFile {
+  version: number
+  // 文書が1件も無いコレクションも残すため名前の一覧を別に持つ
+  collections: string[]
+  documents: { [docId: string]: DocumentAnnotations }
+}
+
+export interface CollectionSummary {
+  name: string
+  documentCount: number
+}
+
+// 履歴・保存済み検索として記録する検索条件 (絞り込みを含む)
+export interface SearchParameters {
+  query: string | SearchQueryNode
+  mode: SearchMode
+  maxEdits?: number
+  facets: FacetSelection[]
+  sort?: SearchSort
+  tag?: string
+  collection?: string
+}
+
+export interface SearchHistoryEntry extends SearchParameters {
+  searchedAt: string
+  totalResults: number
+}
+
+export interface SavedSearch extends SearchParameters {
+  id: string
+  name: string
+  createdAt: string
+  lastRunAt: string
+  // 前回実行したときに該当した文書のファイルパス (新しい該当文書を数えるため)。
+  // 文書IDは内容のハッシュで変わるため、内容が更新された文書を新しい該当として数えないようパスで記録する
+  lastResultPaths: string[]
+}
+
+export interface SavedSearchSummary extends Omit<SavedSearch, 'lastResultPaths'> {
+  // 該当数は求めた場合だけ入る
+  totalResults?: number
+  // 前回の実行後に該当するようになった文書の数
+  newHits?: number
+}
+
+export interface SavedSearchesFile {
+  version: number
+  history: SearchHistoryEntry[]
+  savedSearches: SavedSearch[]
+}
+
+// ローカルのStreamable HTTPでMCPサーバーを公開する設定
+export interface McpHttpConfig {
+  enabled: boolean
+  port: number
+  // インストールごとに生成するBearerトークン
+  token: string
+}
+
+export interface McpHttpStatus {
+  enabled: boolean
+  running: boolean
+  port: number
+  token: string
+  // 公開しているサーバーごとの接続URL
+  endpoints: { name: string; url: string }[]
+  sessions: number
+  error?: string
+}
+
+// アプリから接続する外部のMCPサーバーの設定
+export type McpClientTransportType = 'stdio' | 'http'
+
+export interface McpClientServerConfig {
+  id: string
+  name: string
+  transport: McpClientTransportType
+  enabled: boolean
+  // stdio: 起動するコマンドと引数・追加の環境変数
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+  // http: Streamable HTTPのURLと追加のリクエストヘッダー (Authorizationなど)
+  url?: string
+  headers?: Record<string, string>
+}
+
+export interface McpClientsFile {
+  version: number
+  servers: McpClientServerConfig[]
+}
+
+export type McpClientConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error'
+
+export interface McpClientTool {
+  serverId: string
+  name: string
+  title?: string
+  description?: string
+  // JSON Schema (type: 'object')
+  inputSchema: Record<string, unknown>
+}
+
+export interface McpClientStatus {
+  config: McpClientServerConfig
+  state: McpClientConnectionState
+  serverInfo?: { name: string; version: string }
+  tools: McpClientTool[]
+  error?: string
+}
+
+export interface McpToolCallResponse {
+  success: boolean
+  // ツールが返したcontent (isErrorはツール側で失敗した場合)
+  content?: unknown[]
+  isError?: boolean
+  error?: string
+}
+
+// 外部MCPサーバーなどのツールをLLMに呼ばせるときのモデルの提供元
+export type ToolCallingProvider = 'gemini' | 'claude'
+
+// LLMが呼び出したツール1回分の記録
+export interface ToolCallStep {
+  // 何回目のモデルの応答で呼ばれたか (1始まり)
+  step: number
+  tool: string
+  args: Record<string, unknown>
+  // 結果の先頭部分と全体の長さ
+  resultPreview: string
+  resultLength: number
+  isError: boolean
+  durationMs: number
+}
+
+// LLMがツールを呼びながら回答するエージェントモード
+export interface ToolAgentRequest {
+  provider: ToolCallingProvider
+  question: string
+  // 省略時は環境変数 (GOOGLE_GENERATIVE_AI / ANTHROPIC_API_KEY)
+  apiKey?: string
+  model?: string
+  // ツールを呼び出すモデルの応答回数の上限
+  maxSteps?: number
+  // 外部MCPサーバーのツールも使わせる
+  includeExternalTools?: boolean
+}
+
+export interface ToolAgentResponse {
+  success: boolean
+  answer?: string
+  steps: ToolCallStep[]
+  // 上限に達したため、ツールを使わずに回答させた場合はtrue
+  reachedStepLimit?: boolean
+  error?: string
+}
+
+// MCPのプロンプトとレンダラーで共有する定型プロンプトの引数 (値はすべて文字列)
+export interface DocumentPromptArgument {
+  name: string
+  description: string
+  required: boolean
+  // 指定できる値が決まっている場合の候補
+  options?: string[]
+}
+
+export interface DocumentPromptInfo {
+  name: string
+  title: string
+  description: string
+  arguments: DocumentPromptArgument[]
+}
+
+export interface DocumentPromptResponse {
+  success: boolean
+  // 組み立てたプロンプトと、LLMで実行した場合はその応答
+  prompt?: string
+  response?: string
+  error?: string
+}
+
+export interface LibraryRoot {
+  path: string
+  // ルートからの相対パスに対するglobパターン
+  include: string[]
+  exclude: string[]
+}
+
+export interface LibraryConfig {
+  roots: LibraryRoot[]
+  // 同時に解析するファイル数 (ワーカースレッド数)。未指定の場合はCPU数から決める
+  ingestionConcurrency?: number
+}
+
+// 取り込みに失敗したファイルと理由
+export interface IngestionFailure {
+  filePath: string
+  filename: string
+  error: string
+}
+
+// ライブラリルート1回分の取り込みジョブの進捗
+export interface IngestionJobStatus {
+  jobId: string
+  rootPath: string
+  total: number
+  // 処理の終わったファイル数 (失敗を含む)
+  processed: number
+  // 新規登録・更新されたファイル数 (重複は含まない)
+  registered: number
+  failures: IngestionFailure[]
+  done: boolean
+}
+
+// 取り込みジョブからレンダラーへ送るイベント
+export type IngestionEvent =
+  | { type: 'started'; job: IngestionJobStatus }
+  | {
+      type: 'progress'
+      job: IngestionJobStatus
+      filePath: string
+      filename: string
+      docId: string
+      status: PDFRegistrationResult['status']
+    }
+  | { type: 'error'; job: IngestionJobStatus; failure: IngestionFailure }
+  | { type: 'completed'; job: IngestionJobStatus }
+
+// 検索クエリの構文木
+export type SearchQueryNode =
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  // ファイル名の部分一致 (* と ? はワイルドカード)
+  | { type: 'filename'; pattern: string }
+  // 文書情報の部分一致 (* と ? はワイルドカード)。exactの場合は大文字小文字を区別しない完全一致
+  | { type: 'metadata'; field: MetadataTextField; value: string; exact?: boolean }
+  // ページ数の範囲 (両端を含む)
+  | { type: 'pages'; min?: number; max?: number }
+  // 登録日 (added)・作成日 (created)・更新日 (modified) の範囲。
+  // YYYY, YYYY-MM, YYYY-MM-DD のいずれかで、両端の期間を含む
+  | { type: 'added' | 'created' | 'modified'; from?: string; to?: string }
+  // ユーザーが付けたタグ・コレクション (大文字小文字を区別しない完全一致、* と ? はワイルドカード)
+  | { type: 'tag' | 'collection'; value: string }
+
+export type MetadataTextField =
+  | 'title'
+  | 'author'
+  | 'subject'
+  | 'keywords'
+  | 'producer'
+  | 'language'
+
+// query: 検索構文 / literal: 入力文字列そのまま / regex: 正規表現 / fuzzy: 検索構文 + 編集距離による揺れの許容
+export type SearchMode = 'query' | 'literal' | 'regex' | 'fuzzy'
+
+export interface SearchOptions {
+  mode?: SearchMode
+  // fuzzyモードで許容する最大編集距離 (0〜2)
+  maxEdits?: number
+  maxResults?: number
+  maxMatchesPerDocument?: number
+  contextLength?: number
+  // 読み飛ばす文書数 (ページ送り)
+  offset?: number
+  // 指定した場合はこの文書の一致箇所をmatchOffsetからページ送りする
+  docId?: string
+  matchOffset?: number
+  // 検索モードに関係なく適用する追加の絞り込み (ファセットの選択など)
+  filter?: SearchQueryNode
+  // 省略時は関連度順
+  sort?: SearchSort
+}
+
+export type SearchSortField =
+  | 'relevance'
+  | 'filename'
+  | 'title'
+  | 'author'
+  | 'created'
+  | 'modified'
+  | 'added'
+  | 'pages'
+
+export interface SearchSort {
+  field: SearchSortField
+  // 省略時は関連度・日付・ページ数が降順、文字列が昇順
+  order?: 'asc' | 'desc'
+}
+
+export type FacetField = 'author' | 'year' | 'producer' | 'language' | 'keywords'
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export type SearchFacets = Record<FacetField, FacetCount[]>
+
+// ファセットで選択した値 (yearは作成年)
+export interface FacetSelection {
+  field: FacetField
+  value: string
 }
\ No newline at end of file
@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react'
 import Versions from './components/Versions'
 import { UnifiedConversationController } from './components/UnifiedConversationController'
 import { PDFSearchComponent } from './components/PDFSearchComponent'
+import { McpServerSettings } from './components/McpServerSettings'
+import { DocumentPrompts } from './components/DocumentPrompts'
+import { ExternalMcpServers } from './components/ExternalMcpServers'
+import { ToolAgentPanel } from './components/ToolAgentPanel'
 
 function App(): React.JSX.Element {
   const [selectedLLM, setSelectedLLM] = useState('gpt-4')
@@ -96,11 +100,23 @@ function App(): React.JSX.Element {
       <Versions></Versions>
       
       {/* Unified AI Conversation Chain (Gemini/HuggingFace/Claude) */}
-      {/* <UnifiedConversationController /> */}
+      <UnifiedConversationController />
       
       {/* PDF Search Component */}
       <PDFSearchComponent />
 
+      {/* Agent mode: the LLM calls the search tools itself */}
+      <ToolAgentPanel />
+
+      {/* MCP server settings (HTTP transport) */}
+      <McpServerSettings />
+
+      {/* Prompt templates shared with MCP clients */}
+      <DocumentPrompts />
+
+      {/* External MCP servers and their tools */}
+      <ExternalMcpServers />
+
       <div style={{ margin: '2em 0', padding: '1em', border: '1px solid #ccc', borderRadius: 8 }}>
         <div style={{ marginBottom: 12 }}>
           <label>LLMを選択: </label>
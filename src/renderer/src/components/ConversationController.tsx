@@ -15,6 +15,7 @@ export const ConversationController: React.FC = () => {
   const [initialQuestion, setInitialQuestion] = useState('')
   const [geminiApiKey, setGeminiApiKey] = useState('')
   const [claudeApiKey, setClaudeApiKey] = useState('')
+  const [useExternalTools, setUseExternalTools] = useState(false)
   const [isInitialized, setIsInitialized] = useState(false)
 
   const initializeLLMChain = async () => {
@@ -24,7 +25,12 @@ export const ConversationController: React.FC = () => {
     }
 
     try {
-      const result = await window.electron.ipcRenderer.invoke('init-llm-chain', geminiApiKey, claudeApiKey)
+      const result = await window.electron.ipcRenderer.invoke(
+        'init-llm-chain',
+        geminiApiKey,
+        claudeApiKey,
+        { useExternalTools }
+      )
       if (result.success) {
         setIsInitialized(true)
         setError(null)
@@ -94,6 +100,14 @@ export const ConversationController: React.FC = () => {
               placeholder="Enter Claude API Key"
             />
           </div>
+          <label className="external-tools-option">
+            <input
+              type="checkbox"
+              checked={useExternalTools}
+              onChange={(e) => setUseExternalTools(e.target.checked)}
+            />
+            Let the models call tools of connected external MCP servers
+          </label>
           <button onClick={initializeLLMChain} className="init-button">
             Initialize LLM Chain
           </button>
@@ -152,6 +166,14 @@ export const ConversationController: React.FC = () => {
           margin-bottom: 20px;
         }
         
+        .external-tools-option {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: 15px;
+          color: #333;
+        }
+
         .input-group {
           margin-bottom: 15px;
         }
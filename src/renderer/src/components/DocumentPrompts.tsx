@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react'
+
+interface DocumentPromptArgument {
+  name: string
+  description: string
+  required: boolean
+  options?: string[]
+}
+
+interface DocumentPromptInfo {
+  name: string
+  title: string
+  description: string
+  arguments: DocumentPromptArgument[]
+}
+
+interface DocumentOption {
+  docId: string
+  filename: string
+}
+
+export const DocumentPrompts: React.FC = () => {
+  const [prompts, setPrompts] = useState<DocumentPromptInfo[]>([])
+  const [documents, setDocuments] = useState<DocumentOption[]>([])
+  const [selectedName, setSelectedName] = useState('')
+  const [args, setArgs] = useState<Record<string, string>>({})
+  const [promptText, setPromptText] = useState<string | null>(null)
+  const [response, setResponse] = useState<string | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = prompts.find((prompt) => prompt.name === selectedName)
+
+  const loadPrompts = async (): Promise<void> => {
+    try {
+      const result: DocumentPromptInfo[] =
+        await window.electron.ipcRenderer.invoke('get-document-prompts')
+      setPrompts(result)
+      if (result.length > 0) setSelectedName(result[0].name)
+    } catch {
+      setError('Failed to load the prompt templates')
+    }
+  }
+
+  // Refreshed on focus so that newly registered documents can be picked
+  const loadDocuments = async (): Promise<void> => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('get-registered-pdfs')
+      if (result.success) setDocuments(result.documents)
+    } catch {
+      setError('Failed to load the documents')
+    }
+  }
+
+  useEffect(() => {
+    loadPrompts()
+    loadDocuments()
+  }, [])
+
+  const selectPrompt = (name: string): void => {
+    setSelectedName(name)
+    setArgs({})
+    setPromptText(null)
+    setResponse(null)
+    setError(null)
+  }
+
+  const setArg = (name: string, value: string): void => {
+    setArgs({ ...args, [name]: value })
+  }
+
+  const runPrompt = async (run: boolean): Promise<void> => {
+    if (!selected) return
+    setRunning(true)
+    setError(null)
+    setResponse(null)
+    try {
+      // Empty fields are left out so that the prompt defaults apply
+      const filled = Object.fromEntries(
+        Object.entries(args).filter(([, value]) => value.trim() !== '')
+      )
+      const result = await window.electron.ipcRenderer.invoke(
+        'run-document-prompt',
+        selected.name,
+        filled,
+        { run }
+      )
+      if (result.success) {
+        setPromptText(result.prompt)
+        setResponse(result.response ?? null)
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to run the prompt')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const renderArgumentInput = (arg: DocumentPromptArgument): React.JSX.Element => {
+    const value = args[arg.name] ?? ''
+    if (arg.name === 'docId') {
+      return (
+        <select
+          value={value}
+          onChange={(e) => setArg(arg.name, e.target.value)}
+          onFocus={loadDocuments}
+        >
+          <option value="">{arg.required ? 'Select a document' : 'All documents'}</option>
+          {documents.map((doc) => (
+            <option key={doc.docId} value={doc.docId}>
+              {doc.filename}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    if (arg.name === 'docIds') {
+      return (
+        <select
+          multiple
+          value={value ? value.split(',') : []}
+          onChange={(e) =>
+            setArg(
+              arg.name,
+              Array.from(e.target.selectedOptions, (option) => option.value).join(',')
+            )
+          }
+          onFocus={loadDocuments}
+          className="prompt-multi-select"
+        >
+          {documents.map((doc) => (
+            <option key={doc.docId} value={doc.docId}>
+              {doc.filename}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    if (arg.options) {
+      return (
+        <select value={value} onChange={(e) => setArg(arg.name, e.target.value)}>
+          <option value="">Default</option>
+          {arg.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    if (arg.name === 'question') {
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => setArg(arg.name, e.target.value)}
+          placeholder={arg.description}
+          className="prompt-question"
+        />
+      )
+    }
+    return (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setArg(arg.name, e.target.value)}
+        placeholder={arg.description}
+      />
+    )
+  }
+
+  if (prompts.length === 0) return null
+
+  const missingRequired =
+    selected?.arguments.some((arg) => arg.required && !(args[arg.name] ?? '').trim()) ?? true
+
+  return (
+    <div className="document-prompts">
+      <h4>Prompt Templates</h4>
+
+      <div className="prompt-row">
+        <select value={selectedName} onChange={(e) => selectPrompt(e.target.value)}>
+          {prompts.map((prompt) => (
+            <option key={prompt.name} value={prompt.name}>
+              {prompt.title}
+            </option>
+          ))}
+        </select>
+        {selected && <span className="prompt-description">{selected.description}</span>}
+      </div>
+
+      {selected?.arguments.map((arg) => (
+        <div key={arg.name} className="prompt-argument">
+          <label title={arg.description}>
+            {arg.name}
+            {arg.required && ' *'}
+          </label>
+          {renderArgumentInput(arg)}
+        </div>
+      ))}
+
+      <div className="prompt-row">
+        <button
+          onClick={() => runPrompt(false)}
+          className="prompt-button"
+          disabled={running || missingRequired}
+        >
+          Preview prompt
+        </button>
+        <button
+          onClick={() => runPrompt(true)}
+          className="prompt-button"
+          disabled={running || missingRequired}
+        >
+          {running ? 'Running...' : 'Run with Gemini'}
+        </button>
+      </div>
+
+      {error && <div className="prompt-error">{error}</div>}
+      {response && <div className="prompt-response">{response}</div>}
+      {promptText && (
+        <details className="prompt-text">
+          <summary>Prompt ({promptText.length.toLocaleString()} characters)</summary>
+          <pre>{promptText}</pre>
+        </details>
+      )}
+
+      <style>{`
+        .document-prompts {
+          max-width: 900px;
+          margin: 20px auto;
+          padding: 15px 20px;
+          border: 1px solid #eee;
+          border-radius: 8px;
+          font-size: 13px;
+        }
+
+        .prompt-row {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 10px;
+        }
+
+        .prompt-description {
+          color: #666;
+        }
+
+        .prompt-argument {
+          display: flex;
+          align-items: flex-start;
+          gap: 8px;
+          margin-bottom: 8px;
+        }
+
+        .prompt-argument label {
+          width: 90px;
+          padding-top: 3px;
+          color: #444;
+        }
+
+        .prompt-argument input,
+        .prompt-argument select,
+        .prompt-argument textarea {
+          flex: 1;
+          padding: 3px 6px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .prompt-multi-select {
+          height: 90px;
+        }
+
+        .prompt-question {
+          height: 60px;
+        }
+
+        .prompt-button {
+          padding: 4px 10px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .prompt-error {
+          color: #c62828;
+          margin-bottom: 8px;
+        }
+
+        .prompt-response {
+          white-space: pre-wrap;
+          background: #f9f9f9;
+          padding: 10px;
+          border-radius: 4px;
+          margin-bottom: 8px;
+        }
+
+        .prompt-text pre {
+          max-height: 300px;
+          overflow: auto;
+          white-space: pre-wrap;
+          background: #f5f5f5;
+          padding: 8px;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  )
+}
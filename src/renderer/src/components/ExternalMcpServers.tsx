@@ -0,0 +1,585 @@
+import React, { useState, useEffect } from 'react'
+
+type TransportType = 'stdio' | 'http'
+
+interface McpClientServerConfig {
+  id: string
+  name: string
+  transport: TransportType
+  enabled: boolean
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+  url?: string
+  headers?: Record<string, string>
+}
+
+interface McpClientTool {
+  serverId: string
+  name: string
+  title?: string
+  description?: string
+  inputSchema: {
+    properties?: Record<string, { type?: string; description?: string }>
+    required?: string[]
+  }
+}
+
+interface McpClientStatus {
+  config: McpClientServerConfig
+  state: 'disconnected' | 'connecting' | 'connected' | 'error'
+  serverInfo?: { name: string; version: string }
+  tools: McpClientTool[]
+  error?: string
+}
+
+// Form fields keep lists as one entry per line
+interface ServerDraft {
+  id: string
+  name: string
+  transport: TransportType
+  enabled: boolean
+  command: string
+  args: string
+  env: string
+  cwd: string
+  url: string
+  headers: string
+}
+
+interface ToolResultView {
+  text: string
+  isError: boolean
+}
+
+const EMPTY_DRAFT: ServerDraft = {
+  id: '',
+  name: '',
+  transport: 'stdio',
+  enabled: true,
+  command: '',
+  args: '',
+  env: '',
+  cwd: '',
+  url: '',
+  headers: ''
+}
+
+const STATE_LABELS: Record<McpClientStatus['state'], string> = {
+  disconnected: 'Disabled',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  error: 'Error'
+}
+
+const toLines = (text: string): string[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+// Parses "KEY=value" (env) or "Name: value" (headers) lines
+const parsePairs = (text: string, separator: string): Record<string, string> =>
+  Object.fromEntries(
+    toLines(text)
+      .filter((line) => line.includes(separator))
+      .map((line) => {
+        const index = line.indexOf(separator)
+        return [line.slice(0, index).trim(), line.slice(index + 1).trim()]
+      })
+  )
+
+const formatPairs = (record: Record<string, string> | undefined, separator: string): string =>
+  Object.entries(record ?? {})
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join('\n')
+
+const toDraft = (config: McpClientServerConfig): ServerDraft => ({
+  id: config.id,
+  name: config.name,
+  transport: config.transport,
+  enabled: config.enabled,
+  command: config.command ?? '',
+  args: (config.args ?? []).join('\n'),
+  env: formatPairs(config.env, '='),
+  cwd: config.cwd ?? '',
+  url: config.url ?? '',
+  headers: formatPairs(config.headers, ': ')
+})
+
+const toConfig = (draft: ServerDraft): McpClientServerConfig => ({
+  id: draft.id,
+  name: draft.name,
+  transport: draft.transport,
+  enabled: draft.enabled,
+  ...(draft.transport === 'stdio'
+    ? {
+        command: draft.command,
+        args: toLines(draft.args),
+        env: parsePairs(draft.env, '='),
+        cwd: draft.cwd
+      }
+    : { url: draft.url, headers: parsePairs(draft.headers, ':') })
+})
+
+// Pre-fills the arguments with the tool's properties so that only the values need typing
+const argumentsTemplate = (tool: McpClientTool): string => {
+  const properties = tool.inputSchema.properties ?? {}
+  const template = Object.fromEntries(
+    Object.entries(properties).map(([name, schema]) => {
+      switch (schema.type) {
+        case 'number':
+        case 'integer':
+          return [name, 0]
+        case 'boolean':
+          return [name, false]
+        case 'array':
+          return [name, []]
+        case 'object':
+          return [name, {}]
+        default:
+          return [name, '']
+      }
+    })
+  )
+  return JSON.stringify(template, null, 2)
+}
+
+const formatToolContent = (content: unknown[]): string =>
+  content
+    .map((part) => {
+      const item = part as { type?: string; text?: string }
+      return item.type === 'text' ? (item.text ?? '') : JSON.stringify(part, null, 2)
+    })
+    .join('\n\n')
+
+const toolKey = (tool: McpClientTool): string => `${tool.serverId}/${tool.name}`
+
+export const ExternalMcpServers: React.FC = () => {
+  const [servers, setServers] = useState<McpClientStatus[]>([])
+  const [draft, setDraft] = useState<ServerDraft | null>(null)
+  const [selectedToolKey, setSelectedToolKey] = useState('')
+  const [toolArgs, setToolArgs] = useState('{}')
+  const [toolResult, setToolResult] = useState<ToolResultView | null>(null)
+  const [calling, setCalling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const tools = servers.flatMap((server) => (server.state === 'connected' ? server.tools : []))
+  const selectedTool = tools.find((tool) => toolKey(tool) === selectedToolKey)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke('get-mcp-clients')
+      .then(setServers)
+      .catch(() => setError('Failed to load the external MCP servers'))
+
+    const removeListener = window.electron.ipcRenderer.on(
+      'mcp-clients-changed',
+      (_event, status: McpClientStatus[]) => setServers(status)
+    )
+    return removeListener
+  }, [])
+
+  // Results, status and errors are returned in the same shape by every server action
+  const runServerAction = async (channel: string, ...args: unknown[]): Promise<boolean> => {
+    setError(null)
+    try {
+      const result = await window.electron.ipcRenderer.invoke(channel, ...args)
+      if (!result.success) {
+        setError(result.error)
+        return false
+      }
+      setServers(result.status)
+      return true
+    } catch {
+      setError('Failed to update the external MCP servers')
+      return false
+    }
+  }
+
+  const saveDraft = async (): Promise<void> => {
+    if (!draft) return
+    if (await runServerAction('save-mcp-client', toConfig(draft))) setDraft(null)
+  }
+
+  const toggleServer = (server: McpClientStatus): void => {
+    runServerAction('save-mcp-client', { ...server.config, enabled: !server.config.enabled })
+  }
+
+  const removeServer = (server: McpClientStatus): void => {
+    if (!window.confirm(`Remove the MCP server "${server.config.name}"?`)) return
+    runServerAction('delete-mcp-client', server.config.id)
+  }
+
+  const selectTool = (key: string): void => {
+    setSelectedToolKey(key)
+    setToolResult(null)
+    const tool = tools.find((t) => toolKey(t) === key)
+    setToolArgs(tool ? argumentsTemplate(tool) : '{}')
+  }
+
+  const callTool = async (): Promise<void> => {
+    if (!selectedTool) return
+    let args: Record<string, unknown>
+    try {
+      args = JSON.parse(toolArgs || '{}')
+    } catch {
+      setToolResult({ text: 'The arguments must be a JSON object', isError: true })
+      return
+    }
+
+    setCalling(true)
+    setToolResult(null)
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'call-mcp-client-tool',
+        selectedTool.serverId,
+        selectedTool.name,
+        args
+      )
+      setToolResult(
+        result.success
+          ? { text: formatToolContent(result.content), isError: result.isError }
+          : { text: result.error, isError: true }
+      )
+    } catch {
+      setToolResult({ text: 'Failed to call the tool', isError: true })
+    } finally {
+      setCalling(false)
+    }
+  }
+
+  const serverName = (id: string): string =>
+    servers.find((server) => server.config.id === id)?.config.name ?? id
+
+  return (
+    <div className="external-mcp">
+      <h4>External MCP Servers</h4>
+
+      {servers.length === 0 && <p className="external-mcp-hint">No servers configured.</p>}
+      {servers.map((server) => (
+        <div key={server.config.id} className="external-mcp-server">
+          <div className="external-mcp-row">
+            <span className={`external-mcp-state ${server.state}`}>
+              {STATE_LABELS[server.state]}
+            </span>
+            <strong>{server.config.name}</strong>
+            <span className="external-mcp-detail">
+              {server.config.transport === 'stdio'
+                ? [server.config.command, ...(server.config.args ?? [])].join(' ')
+                : server.config.url}
+            </span>
+            {server.state === 'connected' && (
+              <span className="external-mcp-detail">
+                {server.serverInfo && `${server.serverInfo.name} ${server.serverInfo.version} · `}
+                {server.tools.length} tool{server.tools.length !== 1 ? 's' : ''}
+              </span>
+            )}
+            <span className="external-mcp-actions">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={server.config.enabled}
+                  onChange={() => toggleServer(server)}
+                />
+                Enabled
+              </label>
+              <button
+                onClick={() => runServerAction('reconnect-mcp-client', server.config.id)}
+                className="external-mcp-button"
+                disabled={!server.config.enabled || server.state === 'connecting'}
+              >
+                Reconnect
+              </button>
+              <button
+                onClick={() => setDraft(toDraft(server.config))}
+                className="external-mcp-button"
+              >
+                Edit
+              </button>
+              <button onClick={() => removeServer(server)} className="external-mcp-button">
+                Remove
+              </button>
+            </span>
+          </div>
+          {server.error && <pre className="external-mcp-error">{server.error}</pre>}
+        </div>
+      ))}
+
+      {error && <div className="external-mcp-error">{error}</div>}
+
+      {draft ? (
+        <div className="external-mcp-form">
+          <div className="external-mcp-field">
+            <label>Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="external-mcp-field">
+            <label>Transport</label>
+            <select
+              value={draft.transport}
+              onChange={(e) => setDraft({ ...draft, transport: e.target.value as TransportType })}
+            >
+              <option value="stdio">stdio (local command)</option>
+              <option value="http">Streamable HTTP</option>
+            </select>
+          </div>
+          {draft.transport === 'stdio' ? (
+            <>
+              <div className="external-mcp-field">
+                <label>Command</label>
+                <input
+                  type="text"
+                  value={draft.command}
+                  onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+                  placeholder="npx"
+                />
+              </div>
+              <div className="external-mcp-field">
+                <label>Arguments</label>
+                <textarea
+                  value={draft.args}
+                  onChange={(e) => setDraft({ ...draft, args: e.target.value })}
+                  placeholder={
+                    'One per line, e.g.\n-y\n@modelcontextprotocol/server-filesystem\n/path/to/folder'
+                  }
+                />
+              </div>
+              <div className="external-mcp-field">
+                <label>Environment</label>
+                <textarea
+                  value={draft.env}
+                  onChange={(e) => setDraft({ ...draft, env: e.target.value })}
+                  placeholder="KEY=value, one per line"
+                />
+              </div>
+              <div className="external-mcp-field">
+                <label>Working dir</label>
+                <input
+                  type="text"
+                  value={draft.cwd}
+                  onChange={(e) => setDraft({ ...draft, cwd: e.target.value })}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="external-mcp-field">
+                <label>URL</label>
+                <input
+                  type="text"
+                  value={draft.url}
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  placeholder="https://wiki.example.com/mcp"
+                />
+              </div>
+              <div className="external-mcp-field">
+                <label>Headers</label>
+                <textarea
+                  value={draft.headers}
+                  onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                  placeholder="Authorization: Bearer <token>, one per line"
+                />
+              </div>
+            </>
+          )}
+          <div className="external-mcp-row">
+            <button onClick={saveDraft} className="external-mcp-button">
+              {draft.id ? 'Save and reconnect' : 'Add and connect'}
+            </button>
+            <button onClick={() => setDraft(null)} className="external-mcp-button">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setDraft(EMPTY_DRAFT)} className="external-mcp-button">
+          Add server
+        </button>
+      )}
+
+      {tools.length > 0 && (
+        <div className="external-mcp-tools">
+          <h5>Call a tool</h5>
+          <select value={selectedToolKey} onChange={(e) => selectTool(e.target.value)}>
+            <option value="">Select a tool</option>
+            {tools.map((tool) => (
+              <option key={toolKey(tool)} value={toolKey(tool)}>
+                {serverName(tool.serverId)} / {tool.title ?? tool.name}
+              </option>
+            ))}
+          </select>
+          {selectedTool && (
+            <>
+              {selectedTool.description && (
+                <p className="external-mcp-hint">{selectedTool.description}</p>
+              )}
+              <textarea
+                value={toolArgs}
+                onChange={(e) => setToolArgs(e.target.value)}
+                className="external-mcp-args"
+                spellCheck={false}
+              />
+              <button onClick={callTool} className="external-mcp-button" disabled={calling}>
+                {calling ? 'Calling...' : 'Call tool'}
+              </button>
+            </>
+          )}
+          {toolResult && (
+            <pre className={`external-mcp-result ${toolResult.isError ? 'error' : ''}`}>
+              {toolResult.text}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <style>{`
+        .external-mcp {
+          max-width: 900px;
+          margin: 20px auto;
+          padding: 15px 20px;
+          border: 1px solid #eee;
+          border-radius: 8px;
+          font-size: 13px;
+        }
+
+        .external-mcp-server {
+          padding: 6px 0;
+          border-bottom: 1px solid #f3f3f3;
+        }
+
+        .external-mcp-row {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+
+        .external-mcp-state {
+          padding: 2px 10px;
+          border-radius: 10px;
+          font-size: 12px;
+          background: #f1f3f4;
+          color: #5f6368;
+        }
+
+        .external-mcp-state.connected {
+          background: #e6f4ea;
+          color: #137333;
+        }
+
+        .external-mcp-state.connecting {
+          background: #fef7e0;
+          color: #b06000;
+        }
+
+        .external-mcp-state.error {
+          background: #fce8e6;
+          color: #c5221f;
+        }
+
+        .external-mcp-detail {
+          color: #666;
+          font-size: 12px;
+        }
+
+        .external-mcp-actions {
+          margin-left: auto;
+          display: flex;
+          align-items: center;
+          gap: 4px;
+        }
+
+        .external-mcp-button {
+          padding: 3px 8px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .external-mcp-error {
+          color: #c62828;
+          margin: 6px 0;
+          white-space: pre-wrap;
+          font-size: 12px;
+        }
+
+        .external-mcp-form {
+          margin-top: 10px;
+          padding: 10px;
+          background: #fafafa;
+          border-radius: 6px;
+        }
+
+        .external-mcp-field {
+          display: flex;
+          align-items: flex-start;
+          gap: 8px;
+          margin-bottom: 8px;
+        }
+
+        .external-mcp-field label {
+          width: 90px;
+          padding-top: 3px;
+          color: #444;
+        }
+
+        .external-mcp-field input,
+        .external-mcp-field select,
+        .external-mcp-field textarea {
+          flex: 1;
+          padding: 3px 6px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .external-mcp-field textarea {
+          height: 60px;
+        }
+
+        .external-mcp-tools {
+          margin-top: 15px;
+        }
+
+        .external-mcp-tools h5 {
+          margin: 0 0 8px;
+        }
+
+        .external-mcp-args {
+          display: block;
+          width: 100%;
+          height: 100px;
+          margin: 8px 0;
+          font-family: monospace;
+          font-size: 12px;
+        }
+
+        .external-mcp-result {
+          max-height: 300px;
+          overflow: auto;
+          white-space: pre-wrap;
+          background: #f5f5f5;
+          padding: 8px;
+          font-size: 12px;
+        }
+
+        .external-mcp-result.error {
+          color: #c62828;
+        }
+
+        .external-mcp-hint {
+          color: #666;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react'
+
+interface McpHttpStatus {
+  enabled: boolean
+  running: boolean
+  port: number
+  token: string
+  endpoints: { name: string; url: string }[]
+  sessions: number
+  error?: string
+}
+
+// How often the status (running state, connected sessions) is refreshed
+const STATUS_REFRESH_MS = 5000
+
+export const McpServerSettings: React.FC = () => {
+  const [status, setStatus] = useState<McpHttpStatus | null>(null)
+  const [portInput, setPortInput] = useState('')
+  const [showToken, setShowToken] = useState(false)
+  const [copied, setCopied] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = async (): Promise<void> => {
+    try {
+      setStatus(await window.electron.ipcRenderer.invoke('get-mcp-http-status'))
+    } catch {
+      setError('Failed to load the MCP server status')
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+    const timer = setInterval(loadStatus, STATUS_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Keep the port input in sync with the saved port (the periodic refresh does not reset edits)
+  const savedPort = status?.port
+  useEffect(() => {
+    if (savedPort !== undefined) setPortInput(String(savedPort))
+  }, [savedPort])
+
+  const updateConfig = async (update: { enabled?: boolean; port?: number }): Promise<void> => {
+    setError(null)
+    try {
+      const result = await window.electron.ipcRenderer.invoke('set-mcp-http-config', update)
+      if (result.success) {
+        setStatus(result.status)
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to update the MCP server settings')
+    }
+  }
+
+  const applyPort = (): void => {
+    const port = Number(portInput)
+    if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+      setError('The port must be a number between 1024 and 65535')
+      return
+    }
+    updateConfig({ port })
+  }
+
+  const regenerateToken = async (): Promise<void> => {
+    if (
+      !window.confirm(
+        'Generate a new access token? Clients using the current token will be rejected.'
+      )
+    )
+      return
+    try {
+      setStatus(await window.electron.ipcRenderer.invoke('regenerate-mcp-http-token'))
+    } catch {
+      setError('Failed to generate a new token')
+    }
+  }
+
+  const copy = async (label: string, text: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(label)
+      setTimeout(() => setCopied(null), 1500)
+    } catch {
+      setError('Failed to copy to the clipboard')
+    }
+  }
+
+  if (!status) return null
+
+  return (
+    <div className="mcp-server-settings">
+      <h4>MCP Server (HTTP)</h4>
+
+      <div className="mcp-status-row">
+        <span className={`mcp-status ${status.running ? 'running' : 'stopped'}`}>
+          {status.running
+            ? `Running · ${status.sessions} session${status.sessions !== 1 ? 's' : ''}`
+            : 'Stopped'}
+        </span>
+        <label>
+          <input
+            type="checkbox"
+            checked={status.enabled}
+            onChange={(e) => updateConfig({ enabled: e.target.checked })}
+          />
+          Serve on localhost
+        </label>
+        <label>
+          Port
+          <input
+            type="number"
+            value={portInput}
+            onChange={(e) => setPortInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyPort()}
+            className="mcp-port-input"
+          />
+        </label>
+        <button
+          onClick={applyPort}
+          className="mcp-button"
+          disabled={portInput === String(status.port)}
+        >
+          Apply
+        </button>
+      </div>
+
+      {status.error && <div className="mcp-error">Could not start the server: {status.error}</div>}
+      {error && <div className="mcp-error">{error}</div>}
+
+      <table className="mcp-endpoints">
+        <tbody>
+          {status.endpoints.map((endpoint) => (
+            <tr key={endpoint.name}>
+              <td>{endpoint.name}</td>
+              <td>
+                <code>{endpoint.url}</code>
+              </td>
+              <td>
+                <button onClick={() => copy(endpoint.name, endpoint.url)} className="mcp-button">
+                  {copied === endpoint.name ? 'Copied' : 'Copy URL'}
+                </button>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td>Access token</td>
+            <td>
+              <code>{showToken ? status.token : '•'.repeat(24)}</code>
+            </td>
+            <td>
+              <button onClick={() => setShowToken(!showToken)} className="mcp-button">
+                {showToken ? 'Hide' : 'Show'}
+              </button>
+              <button onClick={() => copy('token', status.token)} className="mcp-button">
+                {copied === 'token' ? 'Copied' : 'Copy'}
+              </button>
+              <button onClick={regenerateToken} className="mcp-button">
+                Regenerate
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="mcp-hint">
+        Clients send the token as <code>Authorization: Bearer &lt;token&gt;</code>. Only connections
+        from this machine are accepted.
+      </p>
+
+      <style>{`
+        .mcp-server-settings {
+          max-width: 900px;
+          margin: 20px auto;
+          padding: 15px 20px;
+          border: 1px solid #eee;
+          border-radius: 8px;
+          font-size: 13px;
+        }
+
+        .mcp-status-row {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 10px;
+        }
+
+        .mcp-status {
+          padding: 2px 10px;
+          border-radius: 10px;
+          font-size: 12px;
+        }
+
+        .mcp-status.running {
+          background: #e6f4ea;
+          color: #137333;
+        }
+
+        .mcp-status.stopped {
+          background: #f1f3f4;
+          color: #5f6368;
+        }
+
+        .mcp-port-input {
+          width: 80px;
+          margin-left: 6px;
+          padding: 3px 6px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .mcp-button {
+          margin-right: 4px;
+          padding: 3px 8px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .mcp-endpoints {
+          border-collapse: collapse;
+          width: 100%;
+        }
+
+        .mcp-endpoints td {
+          padding: 4px 8px 4px 0;
+          vertical-align: middle;
+        }
+
+        .mcp-error {
+          color: #c62828;
+          margin-bottom: 8px;
+        }
+
+        .mcp-hint {
+          color: #666;
+          font-size: 12px;
+          margin-bottom: 0;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -1,19 +1,36 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
+
+interface DocumentInfo {
+  title?: string
+  author?: string
+  subject?: string
+  keywords: string[]
+  creationDate?: string
+  modificationDate?: string
+  producer?: string
+  language?: string
+}
 
 interface SearchResult {
   filename: string
   docId: string
   filePath: string
+  format: string
+  score: number
   totalMatches: number
+  matchOffset: number
   matches: {
     position: number
+    page: number
     context: string
-    preview: string
+    highlights: { start: number; end: number }[]
   }[]
+  nextMatchesCursor: string | null
   metadata: {
     pages: number
     size: number
     createdAt: string
+    info: DocumentInfo
   }
 }
 
@@ -21,52 +38,453 @@ interface PDFDocument {
   docId: string
   filename: string
   filePath: string
+  format: string
+  rootPath: string
+  duplicatePaths: string[]
   pages: number
   contentLength: number
   createdAt: string
+  info: DocumentInfo
+  sectionCount: number
+  tags: string[]
+  collections: string[]
+  notes: string
+}
+
+interface CollectionSummary {
+  name: string
+  documentCount: number
+}
+
+// Annotations being edited; tags are entered as a comma-separated list
+interface AnnotationDraft {
+  docId: string
+  tags: string
+  collections: string[]
+  notes: string
+}
+
+interface OutlineSection {
+  title: string
+  level: number
+  page: number
+  length: number
+}
+
+interface IngestionFailure {
+  filePath: string
+  filename: string
+  error: string
+}
+
+interface IngestionJob {
+  jobId: string
+  rootPath: string
+  total: number
+  processed: number
+  registered: number
+  failures: IngestionFailure[]
+  done: boolean
+}
+
+type IngestionEvent =
+  | { type: 'started' | 'progress' | 'completed'; job: IngestionJob }
+  | { type: 'error'; job: IngestionJob; failure: IngestionFailure }
+
+type FacetField = 'author' | 'year' | 'producer' | 'language' | 'keywords'
+
+type Facets = Record<FacetField, { value: string; count: number }[]>
+
+interface FacetSelection {
+  field: FacetField
+  value: string
+}
+
+type SortField =
+  | 'relevance'
+  | 'filename'
+  | 'title'
+  | 'author'
+  | 'created'
+  | 'modified'
+  | 'added'
+  | 'pages'
+
+type SearchMode = 'query' | 'literal' | 'regex' | 'fuzzy'
+
+type ExportFormat = 'csv' | 'json' | 'markdown'
+
+interface ActiveSearch {
+  query: string
+  mode: SearchMode
+  maxEdits: number
+  facets: FacetSelection[]
+  sort: SortField
+}
+
+// Search conditions kept in the history and in saved searches
+interface SearchParameters {
+  query: string
+  mode: SearchMode
+  maxEdits?: number
+  facets: FacetSelection[]
+  sort?: { field: SortField }
+}
+
+interface SearchHistoryEntry extends SearchParameters {
+  searchedAt: string
+  totalResults: number
+}
+
+interface SavedSearch extends SearchParameters {
+  id: string
+  name: string
+  createdAt: string
+  lastRunAt: string
+  // Only filled in when the counts were requested
+  totalResults?: number
+  newHits?: number
+}
+
+const PAGE_SIZE = 10
+
+const FACET_LABELS: Record<FacetField, string> = {
+  author: 'Author',
+  year: 'Year',
+  producer: 'Producer',
+  language: 'Language',
+  keywords: 'Keywords'
+}
+
+const SORT_LABELS: Record<SortField, string> = {
+  relevance: 'Relevance',
+  filename: 'File name',
+  title: 'Title',
+  author: 'Author',
+  created: 'Created',
+  modified: 'Modified',
+  added: 'Added',
+  pages: 'Pages'
+}
+
+// Short "title · author · year" line from the document properties
+const describeDocument = (info: DocumentInfo): string =>
+  [info.title, info.author, info.creationDate && new Date(info.creationDate).getFullYear()]
+    .filter(Boolean)
+    .join(' · ')
+
+// Wrap the highlighted ranges of a match context in <mark>
+const renderHighlightedContext = (
+  context: string,
+  highlights: { start: number; end: number }[]
+): React.ReactNode[] => {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  highlights.forEach(({ start, end }, index) => {
+    if (start < cursor) return
+    parts.push(context.slice(cursor, start))
+    parts.push(<mark key={index}>{context.slice(start, end)}</mark>)
+    cursor = end
+  })
+  parts.push(context.slice(cursor))
+  return parts
+}
+
+const SEARCH_MODE_PLACEHOLDERS: Record<SearchMode, string> = {
+  query:
+    'Search documents, e.g. "exact phrase" OR term -exclude author:smith tag:review created:2020..2023',
+  literal: 'Exact text, e.g. C++ or (see appendix)',
+  regex: 'Regular expression, e.g. \\bISO ?\\d{4,5}\\b',
+  fuzzy: 'Words with typos or OCR errors are matched too, e.g. recieve mashine'
 }
 
 export const PDFSearchComponent: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('')
+  const [searchMode, setSearchMode] = useState<SearchMode>('query')
+  const [maxEdits, setMaxEdits] = useState(1)
+  const [sortField, setSortField] = useState<SortField>('relevance')
+  const [facets, setFacets] = useState<Facets | null>(null)
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  // The search shown in the results; paging keeps using it even if the input changes
+  const [activeSearch, setActiveSearch] = useState<ActiveSearch | null>(null)
+  // Cursor used to fetch each visited page (page 0 is fetched from activeSearch)
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null])
+  const [currentPage, setCurrentPage] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalResults, setTotalResults] = useState(0)
+  const [totalMatches, setTotalMatches] = useState(0)
+  const [loadingMatchesFor, setLoadingMatchesFor] = useState<string | null>(null)
   const [registeredPDFs, setRegisteredPDFs] = useState<PDFDocument[]>([])
+  const [listFilterInput, setListFilterInput] = useState('')
+  const [listFilter, setListFilter] = useState('')
+  const [listSort, setListSort] = useState<SortField | ''>('')
+  const [listCollection, setListCollection] = useState('')
+  const [listTag, setListTag] = useState('')
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+  const [tags, setTags] = useState<{ value: string; count: number }[]>([])
+  const [newCollectionName, setNewCollectionName] = useState('')
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null)
+  // Bumped whenever the library changes so the list reloads with the current filter
+  const [libraryVersion, setLibraryVersion] = useState(0)
+  // Background indexing jobs in progress and the files that failed to index
+  const [ingestionJobs, setIngestionJobs] = useState<IngestionJob[]>([])
+  const [ingestionFailures, setIngestionFailures] = useState<IngestionFailure[]>([])
+  // Tables of contents currently shown in the document list, by docId
+  const [openOutlines, setOpenOutlines] = useState<Record<string, OutlineSection[]>>({})
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([])
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [savedSearchName, setSavedSearchName] = useState('')
+  const [checkingNewHits, setCheckingNewHits] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [exportStatus, setExportStatus] = useState<string | null>(null)
   const [isSearching, setIsSearching] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Load registered PDFs on component mount
+  const loadRegisteredPDFs = useCallback(async () => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('get-registered-pdfs', {
+        filter: listFilter,
+        sort: listSort ? { field: listSort } : undefined,
+        tag: listTag || undefined,
+        collection: listCollection || undefined
+      })
+      if (result.success) {
+        setRegisteredPDFs(result.documents)
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to load registered PDFs')
+    }
+  }, [listFilter, listSort, listTag, listCollection])
+
+  const loadCollections = useCallback(async (): Promise<void> => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('get-collections')
+      setCollections(result.collections)
+      setTags(result.tags)
+    } catch {
+      setError('Failed to load collections')
+    }
+  }, [])
+
+  // Load registered PDFs on mount, on library changes and when the list filter or sort changes
   useEffect(() => {
     loadRegisteredPDFs()
+    loadCollections()
+  }, [libraryVersion, loadRegisteredPDFs, loadCollections])
+
+  useEffect(() => {
+    loadSavedSearches()
   }, [])
 
-  const loadRegisteredPDFs = async () => {
+  useEffect(() => {
+    loadSearchHistory()
+  }, [])
+
+  // Keep the list in sync with files added, changed or removed in the data folder
+  useEffect(() => {
+    const removeListener = window.electron.ipcRenderer.on(
+      'pdf-library-changed',
+      (
+        _event,
+        change: { type: string; filename: string; duplicateOf?: string; error?: string }
+      ) => {
+        if (change.error) {
+          setError(`Failed to index ${change.filename}: ${change.error}`)
+        } else if (change.duplicateOf) {
+          setError(`${change.filename} has the same content as ${change.duplicateOf}`)
+        }
+        setLibraryVersion((version) => version + 1)
+      }
+    )
+    return removeListener
+  }, [])
+
+  // Show indexing progress, including jobs started before this window opened
+  useEffect(() => {
+    window.electron.ipcRenderer.invoke('get-ingestion-status').then((jobs: IngestionJob[]) => {
+      setIngestionJobs(jobs)
+      setIngestionFailures(jobs.flatMap((job) => job.failures))
+    })
+
+    const removeListener = window.electron.ipcRenderer.on(
+      'pdf-ingestion-progress',
+      (_event, ingestion: IngestionEvent) => {
+        const { job } = ingestion
+        if (ingestion.type === 'started') {
+          // A new scan of the same folder reports its failures again
+          setIngestionFailures((prev) =>
+            prev.filter((failure) => !failure.filePath.startsWith(job.rootPath))
+          )
+        } else if (ingestion.type === 'error') {
+          setIngestionFailures((prev) => [...prev, ingestion.failure])
+        }
+        setIngestionJobs((prev) =>
+          job.done
+            ? prev.filter((j) => j.jobId !== job.jobId)
+            : [...prev.filter((j) => j.jobId !== job.jobId), job]
+        )
+        if (ingestion.type === 'completed') {
+          setLibraryVersion((version) => version + 1)
+        }
+      }
+    )
+    return removeListener
+  }, [])
+
+  const handleCreateCollection = async (): Promise<void> => {
+    if (!newCollectionName.trim()) return
     try {
-      const result = await window.electron.ipcRenderer.invoke('get-registered-pdfs')
+      const result = await window.electron.ipcRenderer.invoke(
+        'create-collection',
+        newCollectionName
+      )
       if (result.success) {
-        setRegisteredPDFs(result.documents)
+        setCollections(result.collections)
+        setNewCollectionName('')
       } else {
         setError(result.error)
       }
-    } catch (err) {
-      setError('Failed to load registered PDFs')
+    } catch {
+      setError('Failed to create the collection')
     }
   }
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) {
-      setError('Please enter a search query')
+  // Documents stay in the library; only their membership in the collection is removed
+  const handleDeleteCollection = async (name: string): Promise<void> => {
+    if (!window.confirm(`Delete the collection "${name}"? Documents in it are not removed.`)) return
+    try {
+      const result = await window.electron.ipcRenderer.invoke('delete-collection', name)
+      if (result.success) {
+        setListCollection('')
+        setLibraryVersion((v) => v + 1)
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to delete the collection')
+    }
+  }
+
+  const saveAnnotations = async (draft: AnnotationDraft): Promise<void> => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'update-document-annotations',
+        draft.docId,
+        {
+          tags: draft.tags.split(','),
+          collections: draft.collections,
+          notes: draft.notes
+        }
+      )
+      if (result.success) {
+        setAnnotationDraft(null)
+        setLibraryVersion((v) => v + 1)
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to save tags and notes')
+    }
+  }
+
+  const toggleDraftCollection = (name: string): void => {
+    setAnnotationDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          collections: prev.collections.includes(name)
+            ? prev.collections.filter((collection) => collection !== name)
+            : [...prev.collections, name]
+        }
+    )
+  }
+
+  // Show or hide the table of contents of a registered document
+  const toggleOutline = async (docId: string): Promise<void> => {
+    if (openOutlines[docId]) {
+      setOpenOutlines((prev) => {
+        const next = { ...prev }
+        delete next[docId]
+        return next
+      })
       return
     }
+    try {
+      const result = await window.electron.ipcRenderer.invoke('get-document-outline', docId)
+      if (result.success) {
+        setOpenOutlines((prev) => ({ ...prev, [docId]: result.sections }))
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to load the table of contents')
+    }
+  }
 
+  // Save every hit of the displayed search (not only the current page) through a save dialog
+  const handleExport = async (): Promise<void> => {
+    if (!activeSearch) return
+    setExportStatus(null)
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'export-search-results',
+        activeSearch.query,
+        {
+          mode: activeSearch.mode,
+          maxEdits: activeSearch.maxEdits,
+          facets: activeSearch.facets,
+          sort: { field: activeSearch.sort }
+        },
+        exportFormat
+      )
+      if (result.success) {
+        setExportStatus(`Exported ${result.exportedMatches} matches to ${result.filePath}`)
+      } else if (!result.canceled) {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to export search results')
+    }
+  }
+
+  const fetchPage = async (
+    search: ActiveSearch,
+    pageIndex: number,
+    cursor: string | null
+  ): Promise<void> => {
     setIsSearching(true)
     setError(null)
 
     try {
-      const result = await window.electron.ipcRenderer.invoke('search-pdf-documents', searchQuery, 10)
+      const result = await window.electron.ipcRenderer.invoke(
+        'search-pdf-documents',
+        search.query,
+        PAGE_SIZE,
+        {
+          mode: search.mode,
+          maxEdits: search.maxEdits,
+          facets: search.facets,
+          sort: { field: search.sort },
+          cursor: cursor ?? undefined
+        }
+      )
       
       if (result.success) {
         setSearchResults(result.results)
+        setTotalResults(result.totalResults)
+        setTotalMatches(result.totalMatches)
+        setNextCursor(result.nextCursor)
+        setFacets(result.facets)
+        setCurrentPage(pageIndex)
+        setPageCursors((prev) => {
+          const cursors = [...prev]
+          cursors[pageIndex] = cursor
+          return cursors
+        })
         if (result.results.length === 0) {
-          setError(`No results found for "${searchQuery}"`)
+          setError(`No results found for "${search.query}"`)
         }
       } else {
         setError(result.error)
@@ -78,6 +496,194 @@ export const PDFSearchComponent: React.FC = () => {
     }
   }
 
+  const handleSearch = async (): Promise<void> => {
+    if (!searchQuery.trim()) {
+      setError('Please enter a search query')
+      return
+    }
+
+    const search = { query: searchQuery, mode: searchMode, maxEdits, facets: [], sort: sortField }
+    await startSearch(search)
+  }
+
+  const startSearch = async (search: ActiveSearch): Promise<void> => {
+    setActiveSearch(search)
+    setExportStatus(null)
+    setPageCursors([null])
+    await fetchPage(search, 0, null)
+    // The main process records every new search in the history
+    loadSearchHistory()
+  }
+
+  const loadSearchHistory = async (): Promise<void> => {
+    try {
+      setSearchHistory(await window.electron.ipcRenderer.invoke('get-search-history'))
+    } catch {
+      setError('Failed to load the search history')
+    }
+  }
+
+  const loadSavedSearches = async (): Promise<void> => {
+    try {
+      setSavedSearches(await window.electron.ipcRenderer.invoke('get-saved-searches'))
+    } catch {
+      setError('Failed to load saved searches')
+    }
+  }
+
+  // Counting new hits runs every saved search again, so it is only done on request
+  const checkNewHits = async (): Promise<void> => {
+    setCheckingNewHits(true)
+    try {
+      setSavedSearches(
+        await window.electron.ipcRenderer.invoke('get-saved-searches', { includeCounts: true })
+      )
+    } catch {
+      setError('Failed to count new hits of saved searches')
+    } finally {
+      setCheckingNewHits(false)
+    }
+  }
+
+  // Fill in the search inputs from stored conditions and run the search
+  const runSearchParameters = async (params: SearchParameters): Promise<void> => {
+    const search: ActiveSearch = {
+      query: params.query,
+      mode: params.mode,
+      maxEdits: params.maxEdits ?? 1,
+      facets: params.facets,
+      sort: params.sort?.field ?? 'relevance'
+    }
+    setSearchQuery(search.query)
+    setSearchMode(search.mode)
+    setMaxEdits(search.maxEdits)
+    setSortField(search.sort)
+    await startSearch(search)
+  }
+
+  const runSavedSearch = async (id: string): Promise<void> => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('run-saved-search', id)
+      if (!result.success) {
+        setError(result.error)
+        return
+      }
+      await runSearchParameters(result.savedSearch)
+      // Running a saved search resets its new hits; the counts of the others are kept
+      setSavedSearches((prev) =>
+        prev.map((saved) =>
+          saved.id === id
+            ? { ...saved, lastRunAt: result.savedSearch.lastRunAt, newHits: 0 }
+            : saved
+        )
+      )
+    } catch {
+      setError('Failed to run the saved search')
+    }
+  }
+
+  const handleSaveSearch = async (): Promise<void> => {
+    if (!activeSearch || !savedSearchName.trim()) return
+    try {
+      const result = await window.electron.ipcRenderer.invoke('save-search', savedSearchName, {
+        query: activeSearch.query,
+        mode: activeSearch.mode,
+        maxEdits: activeSearch.maxEdits,
+        facets: activeSearch.facets,
+        sort: { field: activeSearch.sort }
+      })
+      if (result.success) {
+        setSavedSearchName('')
+        setSavedSearches((prev) => [...prev, result.savedSearch])
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to save the search')
+    }
+  }
+
+  const handleDeleteSavedSearch = async (id: string): Promise<void> => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('delete-saved-search', id)
+      if (result.success) {
+        setSavedSearches((prev) => prev.filter((saved) => saved.id !== id))
+      } else {
+        setError(result.error)
+      }
+    } catch {
+      setError('Failed to delete the saved search')
+    }
+  }
+
+  const handleClearHistory = async (): Promise<void> => {
+    try {
+      await window.electron.ipcRenderer.invoke('clear-search-history')
+      setSearchHistory([])
+    } catch {
+      setError('Failed to clear the search history')
+    }
+  }
+
+  // Narrow (or widen again) the active search by a facet value
+  const toggleFacet = (field: FacetField, value: string): void => {
+    if (!activeSearch) return
+    const selected = activeSearch.facets.some((f) => f.field === field && f.value === value)
+    startSearch({
+      ...activeSearch,
+      facets: selected
+        ? activeSearch.facets.filter((f) => !(f.field === field && f.value === value))
+        : [...activeSearch.facets, { field, value }]
+    })
+  }
+
+  const changeSort = (sort: SortField): void => {
+    setSortField(sort)
+    if (activeSearch) startSearch({ ...activeSearch, sort })
+  }
+
+  const goToPage = (pageIndex: number): void => {
+    if (!activeSearch) return
+    const cursor = pageIndex === currentPage + 1 ? nextCursor : pageCursors[pageIndex]
+    if (pageIndex > 0 && !cursor) return
+    fetchPage(activeSearch, pageIndex, cursor ?? null)
+  }
+
+  // Append the next matches of one document to its result
+  const loadMoreMatches = async (docId: string, cursor: string): Promise<void> => {
+    setLoadingMatchesFor(docId)
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'search-pdf-documents',
+        '',
+        PAGE_SIZE,
+        { cursor }
+      )
+      const more: SearchResult | undefined = result.success ? result.results[0] : undefined
+      if (!more) {
+        setError(result.error ?? 'The document no longer matches this search')
+        return
+      }
+      setSearchResults((prev) =>
+        prev.map((item) =>
+          item.docId === docId
+            ? {
+                ...item,
+                matches: [...item.matches, ...more.matches],
+                nextMatchesCursor: more.nextMatchesCursor
+              }
+            : item
+        )
+      )
+    } catch {
+      setError('Failed to load more matches')
+    } finally {
+      setLoadingMatchesFor(null)
+    }
+  }
+
+  const pageCount = Math.ceil(totalResults / PAGE_SIZE)
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch()
@@ -87,15 +693,53 @@ export const PDFSearchComponent: React.FC = () => {
   return (
     <div className="pdf-search-component">
       <div className="search-section">
-        <h3>PDF Document Search</h3>
+        <h3>Document Search</h3>
         
         <div className="search-input-group">
+          <select
+            value={searchMode}
+            onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+            className="search-mode-select"
+            disabled={isSearching}
+            title="Search mode"
+          >
+            <option value="query">Query</option>
+            <option value="literal">Literal</option>
+            <option value="regex">Regex</option>
+            <option value="fuzzy">Fuzzy</option>
+          </select>
+          {searchMode === 'fuzzy' && (
+            <select
+              value={maxEdits}
+              onChange={(e) => setMaxEdits(Number(e.target.value))}
+              className="search-mode-select"
+              disabled={isSearching}
+              title="Maximum edit distance per word"
+            >
+              <option value={0}>Exact</option>
+              <option value={1}>1 edit</option>
+              <option value={2}>2 edits</option>
+            </select>
+          )}
+          <select
+            value={sortField}
+            onChange={(e) => changeSort(e.target.value as SortField)}
+            className="search-mode-select"
+            disabled={isSearching}
+            title="Sort results by"
+          >
+            {Object.entries(SORT_LABELS).map(([field, label]) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
           <input
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Search within PDF documents..."
+            placeholder={SEARCH_MODE_PLACEHOLDERS[searchMode]}
             className="search-input"
             disabled={isSearching}
           />
@@ -108,76 +752,494 @@ export const PDFSearchComponent: React.FC = () => {
           </button>
         </div>
 
+        {(savedSearches.length > 0 || searchHistory.length > 0 || activeSearch) && (
+          <div className="saved-searches">
+            {savedSearches.map((saved) => (
+              <span key={saved.id} className="saved-search">
+                <button
+                  onClick={() => runSavedSearch(saved.id)}
+                  className="saved-search-run"
+                  disabled={isSearching}
+                  title={`${saved.query} (${saved.mode}) · last run ${new Date(saved.lastRunAt).toLocaleString()}`}
+                >
+                  {saved.name}
+                  {(saved.newHits ?? 0) > 0 && (
+                    <span className="new-hits">{saved.newHits} new</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDeleteSavedSearch(saved.id)}
+                  className="saved-search-delete"
+                  title="Delete saved search"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+            {savedSearches.length > 0 && (
+              <button
+                onClick={checkNewHits}
+                className="small-button"
+                disabled={checkingNewHits}
+                title="Run the saved searches again and count documents that match since their last run"
+              >
+                {checkingNewHits ? 'Checking...' : 'Check new hits'}
+              </button>
+            )}
+            {searchHistory.length > 0 && (
+              <select
+                value=""
+                onChange={(e) =>
+                  e.target.value && runSearchParameters(searchHistory[Number(e.target.value)])
+                }
+                className="search-mode-select"
+                disabled={isSearching}
+                title="Run a recent search again"
+              >
+                <option value="">Recent searches</option>
+                {searchHistory.map((entry, index) => (
+                  <option key={index} value={index}>
+                    {entry.query} ({entry.mode}
+                    {entry.facets.length > 0
+                      ? `, ${entry.facets.map((f) => f.value).join(', ')}`
+                      : ''}
+                    ) — {entry.totalResults} documents
+                  </option>
+                ))}
+              </select>
+            )}
+            {searchHistory.length > 0 && (
+              <button onClick={handleClearHistory} className="small-button">
+                Clear history
+              </button>
+            )}
+            {activeSearch && (
+              <>
+                <input
+                  type="text"
+                  value={savedSearchName}
+                  onChange={(e) => setSavedSearchName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveSearch()}
+                  placeholder="Name for this search"
+                  className="collection-input"
+                />
+                <button
+                  onClick={handleSaveSearch}
+                  className="small-button"
+                  disabled={!savedSearchName.trim()}
+                >
+                  Save search
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         <div className="pdf-stats">
-          <span>{registeredPDFs.length} PDF documents registered</span>
+          <span>{registeredPDFs.length} documents registered</span>
           <button onClick={loadRegisteredPDFs} className="refresh-button">
             Refresh
           </button>
         </div>
 
-        {error && (
-          <div className="error-message">
-            ⚠️ {error}
+        {ingestionJobs.map((job) => (
+          <div key={job.jobId} className="ingestion-progress">
+            <div className="ingestion-label">
+              <span title={job.rootPath}>Indexing {job.rootPath}</span>
+              <span>
+                {job.processed} / {job.total} files
+                {job.failures.length > 0 && ` (${job.failures.length} failed)`}
+              </span>
+            </div>
+            <progress value={job.processed} max={job.total || 1} />
+          </div>
+        ))}
+
+        {ingestionFailures.length > 0 && (
+          <div className="ingestion-failures">
+            <div className="ingestion-label">
+              <span>
+                {ingestionFailures.length} file{ingestionFailures.length !== 1 ? 's' : ''} failed to
+                index
+              </span>
+              <button onClick={() => setIngestionFailures([])} className="refresh-button">
+                Dismiss
+              </button>
+            </div>
+            <ul>
+              {ingestionFailures.map((failure) => (
+                <li key={failure.filePath} title={failure.filePath}>
+                  <strong>{failure.filename}</strong>: {failure.error}
+                </li>
+              ))}
+            </ul>
           </div>
         )}
+
+        {error && <div className="error-message">⚠️ {error}</div>}
       </div>
 
       <div className="results-section">
+        {activeSearch && facets && (
+          <div className="facets">
+            {activeSearch.facets.length > 0 && (
+              <div className="facet-selected">
+                {activeSearch.facets.map(({ field, value }) => (
+                  <button
+                    key={`${field}:${value}`}
+                    onClick={() => toggleFacet(field, value)}
+                    className="facet-chip selected"
+                    title="Remove filter"
+                  >
+                    {FACET_LABELS[field]}: {value} ✕
+                  </button>
+                ))}
+              </div>
+            )}
+            {(Object.keys(FACET_LABELS) as FacetField[])
+              .filter((field) => facets[field].length > 0)
+              .map((field) => (
+                <div key={field} className="facet-group">
+                  <span className="facet-label">{FACET_LABELS[field]}</span>
+                  {facets[field].map(({ value, count }) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleFacet(field, value)}
+                      disabled={isSearching}
+                      className={`facet-chip ${
+                        activeSearch.facets.some((f) => f.field === field && f.value === value)
+                          ? 'selected'
+                          : ''
+                      }`}
+                    >
+                      {value} ({count})
+                    </button>
+                  ))}
+                </div>
+              ))}
+          </div>
+        )}
+
         {searchResults.length > 0 && (
           <div className="search-results">
-            <h4>Search Results ({searchResults.length} documents found)</h4>
+            <h4>
+              Search Results ({currentPage * PAGE_SIZE + 1}–
+              {currentPage * PAGE_SIZE + searchResults.length} of {totalResults} documents,{' '}
+              {totalMatches} match{totalMatches !== 1 ? 'es' : ''})
+            </h4>
+            <div className="export-controls">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className="search-mode-select"
+                title="Export format"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+                <option value="markdown">Markdown report</option>
+              </select>
+              <button onClick={handleExport} className="small-button">
+                Export results
+              </button>
+              {exportStatus && <span className="export-status">{exportStatus}</span>}
+            </div>
 
             {searchResults.map((result, index) => {
               console.log('Search result:', result)
               return (
                 <div key={index} className="result-item">
                   <div className="result-header">
-                    <h5>{result.filename}</h5>
+                    <h5>
+                      {result.filename} <span className="format-badge">{result.format}</span>
+                    </h5>
                     <span className="match-count">
                       {result.totalMatches} match{result.totalMatches !== 1 ? 'es' : ''} found
                     </span>
                   </div>
 
+                  {describeDocument(result.metadata.info) && (
+                    <div className="document-info">{describeDocument(result.metadata.info)}</div>
+                  )}
+
                   <div className="result-metadata">
                     <span>Pages: {result.metadata.pages}</span>
                     <span>Size: {Math.round(result.metadata.size / 1024)}KB</span>
+                    <span>Relevance: {result.score.toFixed(2)}</span>
                   </div>
 
                   <div className="matches">
                     {result.matches.map((match, matchIndex) => (
                       <div key={matchIndex} className="match-item">
                         <div className="match-context">
-                          {match.preview}
+                          {renderHighlightedContext(match.context, match.highlights)}
                         </div>
                         <div className="match-position">
-                          Position: {match.position}
+                          Page {match.page} of {result.metadata.pages}
                         </div>
                       </div>
                     ))}
                   </div>
+
+                  {result.nextMatchesCursor && (
+                    <button
+                      onClick={() =>
+                        loadMoreMatches(result.docId, result.nextMatchesCursor as string)
+                      }
+                      disabled={loadingMatchesFor === result.docId}
+                      className="load-more-button"
+                    >
+                      {loadingMatchesFor === result.docId
+                        ? 'Loading...'
+                        : `Load more matches (${result.totalMatches - result.matches.length} remaining)`}
+                    </button>
+                  )}
                 </div>
               )
             })}
+
+            {pageCount > 1 && (
+              <div className="pagination">
+                <button
+                  onClick={() => goToPage(currentPage - 1)}
+                  disabled={isSearching || currentPage === 0}
+                  className="page-button"
+                >
+                  Previous
+                </button>
+                {pageCursors.map((_, pageIndex) => (
+                  <button
+                    key={pageIndex}
+                    onClick={() => goToPage(pageIndex)}
+                    disabled={isSearching || pageIndex === currentPage}
+                    className={`page-button ${pageIndex === currentPage ? 'current' : ''}`}
+                  >
+                    {pageIndex + 1}
+                  </button>
+                ))}
+                <span className="page-info">of {pageCount}</span>
+                <button
+                  onClick={() => goToPage(currentPage + 1)}
+                  disabled={isSearching || !nextCursor}
+                  className="page-button"
+                >
+                  Next
+                </button>
+              </div>
+            )}
           </div>
         )}
 
         <div className="registered-pdfs">
-          <h4>Registered PDF Documents ({registeredPDFs.length})</h4>
+          <h4>Registered Documents ({registeredPDFs.length})</h4>
+          <div className="list-controls">
+            <input
+              type="text"
+              value={listFilterInput}
+              onChange={(e) => setListFilterInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && setListFilter(listFilterInput)}
+              onBlur={() => setListFilter(listFilterInput)}
+              placeholder="Filter, e.g. author:smith lang:en tag:review created:2021"
+              className="search-input"
+            />
+            <select
+              value={listSort}
+              onChange={(e) => setListSort(e.target.value as SortField | '')}
+              className="search-mode-select"
+              title="Sort documents by"
+            >
+              <option value="">Registration order</option>
+              {Object.entries(SORT_LABELS)
+                .filter(([field]) => field !== 'relevance')
+                .map(([field, label]) => (
+                  <option key={field} value={field}>
+                    {label}
+                  </option>
+                ))}
+            </select>
+            <select
+              value={listCollection}
+              onChange={(e) => setListCollection(e.target.value)}
+              className="search-mode-select"
+              title="Show documents in a collection"
+            >
+              <option value="">All documents</option>
+              {collections.map((collection) => (
+                <option key={collection.name} value={collection.name}>
+                  {collection.name} ({collection.documentCount})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="collection-controls">
+            <input
+              type="text"
+              value={newCollectionName}
+              onChange={(e) => setNewCollectionName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateCollection()}
+              placeholder="New collection"
+              className="collection-input"
+            />
+            <button
+              onClick={handleCreateCollection}
+              className="small-button"
+              disabled={!newCollectionName.trim()}
+            >
+              Add collection
+            </button>
+            {listCollection && (
+              <button
+                onClick={() => handleDeleteCollection(listCollection)}
+                className="small-button"
+              >
+                Delete &quot;{listCollection}&quot;
+              </button>
+            )}
+          </div>
+          {(listTag || tags.length > 0) && (
+            <div className="tag-list">
+              {listTag ? (
+                <button
+                  onClick={() => setListTag('')}
+                  className="tag-chip active"
+                  title="Show all tags"
+                >
+                  {listTag} ✕
+                </button>
+              ) : (
+                tags.map((tag) => (
+                  <button
+                    key={tag.value}
+                    onClick={() => setListTag(tag.value)}
+                    className="tag-chip"
+                  >
+                    {tag.value} ({tag.count})
+                  </button>
+                ))
+              )}
+            </div>
+          )}
           {registeredPDFs.length > 0 ? (
             <div className="pdf-list">
               {registeredPDFs.map((pdf, index) => (
                 <div key={index} className="pdf-item">
-                  <div className="pdf-name">{pdf.filename}</div>
+                  <div className="pdf-name">
+                    {pdf.filename} <span className="format-badge">{pdf.format}</span>
+                  </div>
+                  {describeDocument(pdf.info) && (
+                    <div className="document-info">{describeDocument(pdf.info)}</div>
+                  )}
                   <div className="pdf-details">
                     <span>Pages: {pdf.pages}</span>
                     <span>Content: {Math.round(pdf.contentLength / 1024)}KB</span>
                     <span>Added: {new Date(pdf.createdAt).toLocaleDateString()}</span>
+                    <span title={pdf.filePath}>Root: {pdf.rootPath}</span>
                   </div>
+                  {pdf.duplicatePaths.length > 0 && (
+                    <div className="pdf-duplicates">
+                      Identical copies: {pdf.duplicatePaths.join(', ')}
+                    </div>
+                  )}
+                  {(pdf.tags.length > 0 || pdf.collections.length > 0) && (
+                    <div className="tag-list">
+                      {pdf.tags.map((tag) => (
+                        <button key={tag} onClick={() => setListTag(tag)} className="tag-chip">
+                          {tag}
+                        </button>
+                      ))}
+                      {pdf.collections.map((collection) => (
+                        <span key={collection} className="collection-badge">
+                          {collection}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {pdf.notes && <div className="document-notes">{pdf.notes}</div>}
+                  <div className="pdf-actions">
+                    {pdf.sectionCount > 0 && (
+                      <button onClick={() => toggleOutline(pdf.docId)} className="outline-toggle">
+                        {openOutlines[pdf.docId]
+                          ? 'Hide contents'
+                          : `Contents (${pdf.sectionCount})`}
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        setAnnotationDraft({
+                          docId: pdf.docId,
+                          tags: pdf.tags.join(', '),
+                          collections: pdf.collections,
+                          notes: pdf.notes
+                        })
+                      }
+                      className="outline-toggle"
+                    >
+                      Edit tags &amp; notes
+                    </button>
+                  </div>
+                  {annotationDraft?.docId === pdf.docId && (
+                    <div className="annotation-editor">
+                      <input
+                        type="text"
+                        value={annotationDraft.tags}
+                        onChange={(e) =>
+                          setAnnotationDraft({ ...annotationDraft, tags: e.target.value })
+                        }
+                        placeholder="Tags, separated by commas"
+                        className="collection-input"
+                      />
+                      {collections.length > 0 && (
+                        <div className="annotation-collections">
+                          {collections.map((collection) => (
+                            <label key={collection.name}>
+                              <input
+                                type="checkbox"
+                                checked={annotationDraft.collections.includes(collection.name)}
+                                onChange={() => toggleDraftCollection(collection.name)}
+                              />
+                              {collection.name}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      <textarea
+                        value={annotationDraft.notes}
+                        onChange={(e) =>
+                          setAnnotationDraft({ ...annotationDraft, notes: e.target.value })
+                        }
+                        placeholder="Notes"
+                        rows={4}
+                      />
+                      <div className="pdf-actions">
+                        <button
+                          onClick={() => saveAnnotations(annotationDraft)}
+                          className="small-button"
+                        >
+                          Save
+                        </button>
+                        <button onClick={() => setAnnotationDraft(null)} className="small-button">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {openOutlines[pdf.docId] && (
+                    <ul className="outline-list">
+                      {openOutlines[pdf.docId].map((section, sectionIndex) => (
+                        <li key={sectionIndex} style={{ paddingLeft: (section.level - 1) * 16 }}>
+                          <span>{section.title}</span>
+                          <span className="outline-page">p. {section.page}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ))}
             </div>
           ) : (
-            <p>No PDFs registered. Place PDF files in the 'data' folder and restart the app.</p>
+            <p>
+              No documents registered. Place PDF, Markdown, text, HTML or DOCX files in a library
+              folder and they will be picked up automatically.
+            </p>
           )}
         </div>
       </div>
@@ -211,6 +1273,14 @@ export const PDFSearchComponent: React.FC = () => {
           font-size: 14px;
         }
 
+        .search-mode-select {
+          padding: 10px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-size: 14px;
+          background: white;
+        }
+
         .search-button {
           padding: 10px 20px;
           background: #4285f4;
@@ -242,6 +1312,37 @@ export const PDFSearchComponent: React.FC = () => {
           font-size: 12px;
         }
 
+        .ingestion-progress,
+        .ingestion-failures {
+          margin-top: 10px;
+          font-size: 12px;
+          color: #666;
+        }
+
+        .ingestion-label {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 4px;
+        }
+
+        .ingestion-progress progress {
+          width: 100%;
+        }
+
+        .ingestion-failures {
+          background: #fff8e1;
+          color: #8d6e00;
+          padding: 10px;
+          border-radius: 4px;
+        }
+
+        .ingestion-failures ul {
+          margin: 0;
+          padding-left: 18px;
+        }
+
         .error-message {
           background: #ffebee;
           color: #c62828;
@@ -308,11 +1409,114 @@ export const PDFSearchComponent: React.FC = () => {
           color: #333;
         }
 
+        .match-context mark {
+          background: #fff59d;
+          color: inherit;
+          padding: 0 1px;
+          border-radius: 2px;
+        }
+
         .match-position {
           font-size: 11px;
           color: #888;
         }
 
+        .facets {
+          margin-bottom: 15px;
+        }
+
+        .facet-selected,
+        .facet-group {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: 8px;
+        }
+
+        .facet-label {
+          font-size: 12px;
+          color: #666;
+          min-width: 70px;
+        }
+
+        .facet-chip {
+          padding: 3px 8px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 12px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .facet-chip.selected {
+          background: #4285f4;
+          color: white;
+        }
+
+        .format-badge {
+          font-size: 10px;
+          font-weight: normal;
+          text-transform: uppercase;
+          color: #555;
+          background: #eceff1;
+          padding: 1px 6px;
+          border-radius: 8px;
+          vertical-align: middle;
+        }
+
+        .document-info {
+          font-size: 12px;
+          color: #555;
+          margin-bottom: 8px;
+        }
+
+        .list-controls {
+          display: flex;
+          gap: 10px;
+          margin-bottom: 10px;
+        }
+
+        .load-more-button {
+          padding: 6px 12px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .pagination {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 6px;
+          margin-top: 10px;
+        }
+
+        .page-button {
+          padding: 6px 10px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .page-button.current {
+          background: #4285f4;
+          color: white;
+        }
+
+        .page-button:disabled {
+          cursor: default;
+        }
+
+        .page-info {
+          font-size: 12px;
+          color: #666;
+        }
+
         .registered-pdfs {
           margin-top: 30px;
         }
@@ -338,6 +1542,183 @@ export const PDFSearchComponent: React.FC = () => {
           color: #666;
         }
 
+        .pdf-duplicates {
+          font-size: 12px;
+          color: #b26a00;
+          margin-top: 4px;
+        }
+
+        .outline-toggle {
+          margin-top: 6px;
+          padding: 3px 8px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .pdf-actions {
+          display: flex;
+          gap: 6px;
+        }
+
+        .saved-searches {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: 10px;
+        }
+
+        .saved-search {
+          display: inline-flex;
+          background: #e8f0fe;
+          border-radius: 12px;
+          overflow: hidden;
+        }
+
+        .saved-search-run,
+        .saved-search-delete {
+          padding: 3px 8px;
+          background: none;
+          border: none;
+          cursor: pointer;
+          font-size: 12px;
+          color: #1a73e8;
+        }
+
+        .saved-search-delete {
+          padding-left: 2px;
+          color: #888;
+        }
+
+        .new-hits {
+          margin-left: 6px;
+          padding: 0 6px;
+          background: #d93025;
+          color: white;
+          border-radius: 8px;
+          font-size: 10px;
+        }
+
+        .export-controls {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: 10px;
+        }
+
+        .export-status {
+          font-size: 12px;
+          color: #2e7d32;
+        }
+
+        .collection-controls {
+          display: flex;
+          gap: 6px;
+          margin-bottom: 10px;
+        }
+
+        .collection-input {
+          flex: 1;
+          padding: 4px 8px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-size: 12px;
+        }
+
+        .small-button {
+          padding: 4px 10px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .tag-list {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin: 4px 0 8px;
+        }
+
+        .tag-chip {
+          padding: 1px 8px;
+          background: #e3f2fd;
+          color: #1565c0;
+          border: none;
+          border-radius: 10px;
+          cursor: pointer;
+          font-size: 11px;
+        }
+
+        .tag-chip.active {
+          background: #1565c0;
+          color: white;
+        }
+
+        .collection-badge {
+          padding: 1px 8px;
+          background: #f3e5f5;
+          color: #6a1b9a;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: normal;
+        }
+
+        .document-notes {
+          font-size: 12px;
+          font-weight: normal;
+          color: #444;
+          white-space: pre-wrap;
+          margin: 4px 0;
+        }
+
+        .annotation-editor {
+          display: grid;
+          gap: 6px;
+          margin-top: 8px;
+          font-size: 12px;
+          font-weight: normal;
+        }
+
+        .annotation-collections {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+
+        .annotation-editor textarea {
+          padding: 6px 8px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-family: inherit;
+          font-size: 12px;
+        }
+
+        .outline-list {
+          list-style: none;
+          margin: 6px 0 0;
+          padding: 0;
+          font-size: 12px;
+          font-weight: normal;
+          color: #444;
+        }
+
+        .outline-list li {
+          display: flex;
+          justify-content: space-between;
+          gap: 10px;
+          padding: 2px 0;
+        }
+
+        .outline-page {
+          color: #888;
+          white-space: nowrap;
+        }
+
         h3, h4, h5 {
           color: #333;
           margin-top: 0;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useRef } from 'react'
+
+type Provider = 'gemini' | 'claude'
+
+interface ToolAgentStep {
+  step: number
+  tool: string
+  args: Record<string, unknown>
+  resultPreview: string
+  resultLength: number
+  isError: boolean
+  durationMs: number
+}
+
+interface ToolAgentResponse {
+  success: boolean
+  answer?: string
+  steps: ToolAgentStep[]
+  reachedStepLimit?: boolean
+  error?: string
+}
+
+const PROVIDERS: { label: string; value: Provider }[] = [
+  { label: 'Gemini (function calling)', value: 'gemini' },
+  { label: 'Claude (tool use)', value: 'claude' }
+]
+
+export const ToolAgentPanel: React.FC = () => {
+  const [provider, setProvider] = useState<Provider>('gemini')
+  const [apiKey, setApiKey] = useState('')
+  const [question, setQuestion] = useState('')
+  const [maxSteps, setMaxSteps] = useState(8)
+  const [includeExternalTools, setIncludeExternalTools] = useState(false)
+  const [steps, setSteps] = useState<ToolAgentStep[]>([])
+  const [result, setResult] = useState<ToolAgentResponse | null>(null)
+  const [running, setRunning] = useState(false)
+  // Steps of an earlier run that arrive late are ignored
+  const runIdRef = useRef('')
+
+  useEffect(() => {
+    const removeListener = window.electron.ipcRenderer.on(
+      'tool-agent-step',
+      (_event, progress: { runId: string; step: ToolAgentStep }) => {
+        if (progress.runId === runIdRef.current) setSteps((prev) => [...prev, progress.step])
+      }
+    )
+    return removeListener
+  }, [])
+
+  const ask = async (): Promise<void> => {
+    if (!question.trim()) return
+    const runId = `${Date.now()}`
+    runIdRef.current = runId
+    setRunning(true)
+    setSteps([])
+    setResult(null)
+    try {
+      const response: ToolAgentResponse = await window.electron.ipcRenderer.invoke(
+        'run-tool-agent',
+        { provider, question, apiKey: apiKey || undefined, maxSteps, includeExternalTools },
+        runId
+      )
+      // The final trace is complete even if some progress events were missed
+      setSteps(response.steps)
+      setResult(response)
+    } catch {
+      setResult({ success: false, steps: [], error: 'Failed to run the agent' })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="tool-agent">
+      <h4>Ask the Library (agent mode)</h4>
+      <p className="tool-agent-hint">
+        The model searches and reads the registered documents with the MCP tools until it can
+        answer, and cites its sources.
+      </p>
+
+      <div className="tool-agent-row">
+        <select value={provider} onChange={(e) => setProvider(e.target.value as Provider)}>
+          {PROVIDERS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key (uses the environment when empty)"
+          className="tool-agent-key"
+        />
+        <label>
+          Max steps
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={maxSteps}
+            onChange={(e) => setMaxSteps(Number(e.target.value))}
+            className="tool-agent-steps-input"
+          />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={includeExternalTools}
+            onChange={(e) => setIncludeExternalTools(e.target.checked)}
+          />
+          Use external MCP tools
+        </label>
+      </div>
+
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Ask a question about your documents"
+        className="tool-agent-question"
+      />
+      <button onClick={ask} disabled={running || !question.trim()} className="tool-agent-button">
+        {running ? 'Working...' : 'Ask'}
+      </button>
+
+      {steps.length > 0 && (
+        <ol className="tool-agent-trace">
+          {steps.map((step, index) => (
+            <li key={index} className={step.isError ? 'error' : ''}>
+              <div>
+                <span className="tool-agent-step-number">Step {step.step}</span>
+                <code>{step.tool}</code>
+                <span className="tool-agent-meta">
+                  {step.resultLength.toLocaleString()} chars · {step.durationMs} ms
+                  {step.isError && ' · error'}
+                </span>
+              </div>
+              <code className="tool-agent-args">{JSON.stringify(step.args)}</code>
+              <details>
+                <summary>Result</summary>
+                <pre>
+                  {step.resultPreview}
+                  {step.resultLength > step.resultPreview.length && '\n...'}
+                </pre>
+              </details>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {result?.error && <div className="tool-agent-error">{result.error}</div>}
+      {result?.reachedStepLimit && (
+        <div className="tool-agent-meta">
+          The step limit was reached, so the model answered with what it had found.
+        </div>
+      )}
+      {result?.success && <div className="tool-agent-answer">{result.answer || '(no answer)'}</div>}
+
+      <style>{`
+        .tool-agent {
+          max-width: 900px;
+          margin: 20px auto;
+          padding: 15px 20px;
+          border: 1px solid #eee;
+          border-radius: 8px;
+          font-size: 13px;
+        }
+
+        .tool-agent-hint,
+        .tool-agent-meta {
+          color: #666;
+          font-size: 12px;
+        }
+
+        .tool-agent-row {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          flex-wrap: wrap;
+          margin-bottom: 10px;
+        }
+
+        .tool-agent-key {
+          flex: 1;
+          min-width: 200px;
+          padding: 3px 6px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .tool-agent-steps-input {
+          width: 50px;
+          margin-left: 6px;
+        }
+
+        .tool-agent-question {
+          display: block;
+          width: 100%;
+          height: 60px;
+          margin-bottom: 8px;
+          padding: 6px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .tool-agent-button {
+          padding: 4px 12px;
+          background: #f0f0f0;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        .tool-agent-trace {
+          margin: 12px 0;
+          padding-left: 20px;
+        }
+
+        .tool-agent-trace li {
+          margin-bottom: 8px;
+        }
+
+        .tool-agent-trace li.error code {
+          color: #c62828;
+        }
+
+        .tool-agent-step-number {
+          margin-right: 8px;
+          color: #888;
+        }
+
+        .tool-agent-trace .tool-agent-meta {
+          margin-left: 8px;
+        }
+
+        .tool-agent-args {
+          display: block;
+          color: #555;
+          font-size: 11px;
+          word-break: break-all;
+        }
+
+        .tool-agent-trace pre {
+          max-height: 200px;
+          overflow: auto;
+          white-space: pre-wrap;
+          background: #f5f5f5;
+          padding: 6px;
+          font-size: 11px;
+        }
+
+        .tool-agent-error {
+          color: #c62828;
+          margin: 8px 0;
+        }
+
+        .tool-agent-answer {
+          white-space: pre-wrap;
+          background: #f9f9f9;
+          padding: 10px;
+          border-radius: 4px;
+          margin-top: 8px;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -20,6 +20,7 @@ export const UnifiedConversationController: React.FC = () => {
   const [huggingFaceApiKey, setHuggingFaceApiKey] = useState('')
   const [cohereApiKey, setCohereApiKey] = useState('')
   const [chainType, setChainType] = useState<ChainType>('gemini-only')
+  const [useExternalTools, setUseExternalTools] = useState(false)
   const [isInitialized, setIsInitialized] = useState(false)
 
   const initializeLLMChain = async () => {
@@ -59,7 +60,9 @@ export const UnifiedConversationController: React.FC = () => {
     }
 
     try {
-      const result = await window.electron.ipcRenderer.invoke('init-llm-unified', chainType, keys)
+      const result = await window.electron.ipcRenderer.invoke('init-llm-unified', chainType, keys, {
+        useExternalTools
+      })
       if (result.success) {
         setIsInitialized(true)
         setError(null)
@@ -191,6 +194,15 @@ export const UnifiedConversationController: React.FC = () => {
             </div>
           )}
 
+          <label className="external-tools-option">
+            <input
+              type="checkbox"
+              checked={useExternalTools}
+              onChange={(e) => setUseExternalTools(e.target.checked)}
+            />
+            Let the models call tools of connected external MCP servers
+          </label>
+
           <button onClick={initializeLLMChain} className="init-button">
             Initialize {getChainLabel(chainType)}
           </button>
@@ -268,6 +280,14 @@ export const UnifiedConversationController: React.FC = () => {
           background: white;
         }
         
+        .external-tools-option {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: 15px;
+          color: #333;
+        }
+
         .input-group {
           margin-bottom: 15px;
         }